@@ -3,12 +3,24 @@ import { NavigationContainer, DefaultTheme, DarkTheme } from '@react-navigation/
 import { createNativeStackNavigator } from '@react-navigation/native-stack';
 import SettingsScreen from './src/screens/SettingsScreen';
 import ChatScreen from './src/screens/ChatScreen';
+import SessionListScreen from './src/screens/SessionListScreen';
+import DiagnosticsScreen from './src/screens/DiagnosticsScreen';
+import PersonasScreen from './src/screens/PersonasScreen';
 import { ConfigContext, useConfig, saveConfig } from './src/store/config';
+import { SessionContext, useSessions } from './src/store/sessions';
+import { ConnectionContext, useConnection } from './src/store/connection';
+import { OutboxContext, useOutbox, useOutboxFlush } from './src/store/outbox';
+import { useBackgroundSender } from './src/store/backgroundSend';
+import { PersonaContext, usePersonas } from './src/store/personas';
 import { View, ActivityIndicator, Image } from 'react-native';
 import { SafeAreaProvider } from 'react-native-safe-area-context';
 import { ThemeProvider, useTheme } from './src/ui/ThemeProvider';
 import * as Linking from 'expo-linking';
 import { useEffect } from 'react';
+import { createLogger, loadLogs } from './src/lib/logger';
+import { isServerConfigured, serverConnection } from './src/lib/openaiClient';
+
+const log = createLogger('app');
 
 const Stack = createNativeStackNavigator();
 
@@ -27,7 +39,7 @@ function parseDeepLink(url: string | null) {
       }
     }
   } catch (e) {
-    console.warn('Failed to parse deep link:', e);
+    log.warn('Failed to parse deep link:', e);
   }
   return null;
 }
@@ -35,6 +47,17 @@ function parseDeepLink(url: string | null) {
 function Navigation() {
   const { theme, isDark } = useTheme();
   const cfg = useConfig();
+  const sessions = useSessions();
+  const outbox = useOutbox();
+  const personas = usePersonas();
+  const connection = useConnection(serverConnection(cfg.config), cfg.ready);
+  // Queued messages of every chat go out once the server is reachable again
+  const sendInBackground = useBackgroundSender(cfg.config, sessions);
+  useOutboxFlush(outbox, connection, sendInBackground, cfg.ready && sessions.ready && outbox.ready);
+  // The previous runs' logs go ahead of this one's in the diagnostics buffer
+  useEffect(() => {
+    loadLogs();
+  }, []);
 
   // Create navigation theme that matches our theme
   const navTheme = {
@@ -77,7 +100,7 @@ function Navigation() {
     return () => subscription.remove();
   }, [cfg.ready]);
 
-  if (!cfg.ready) {
+  if (!cfg.ready || !sessions.ready || !outbox.ready || !personas.ready) {
     return (
       <View style={{ flex: 1, alignItems: 'center', justifyContent: 'center', backgroundColor: theme.colors.background }}>
         <ActivityIndicator color={theme.colors.foreground} />
@@ -87,31 +110,46 @@ function Navigation() {
 
   return (
     <ConfigContext.Provider value={cfg}>
-      <NavigationContainer theme={navTheme}>
-        <Stack.Navigator
-          initialRouteName="Settings"
-          screenOptions={{
-            headerTitleStyle: { ...theme.typography.h2 },
-            headerStyle: { backgroundColor: theme.colors.card },
-            headerTintColor: theme.colors.foreground,
-            contentStyle: { backgroundColor: theme.colors.background },
-            headerLeft: () => (
-              <Image
-                source={require('./assets/favicon.png')}
-                style={{ width: 28, height: 28, marginLeft: 12, marginRight: 8 }}
-                resizeMode="contain"
-              />
-            ),
-          }}
-        >
-          <Stack.Screen
-            name="Settings"
-            component={SettingsScreen}
-            options={{ title: 'SpeakMCP' }}
-          />
-          <Stack.Screen name="Chat" component={ChatScreen} />
-        </Stack.Navigator>
-      </NavigationContainer>
+      <SessionContext.Provider value={sessions}>
+        <ConnectionContext.Provider value={connection}>
+          <OutboxContext.Provider value={outbox}>
+            <PersonaContext.Provider value={personas}>
+              <NavigationContainer theme={navTheme}>
+                <Stack.Navigator
+                  initialRouteName={isServerConfigured(cfg.config) ? 'Sessions' : 'Settings'}
+                  screenOptions={{
+                    headerTitleStyle: { ...theme.typography.h2 },
+                    headerStyle: { backgroundColor: theme.colors.card },
+                    headerTintColor: theme.colors.foreground,
+                    contentStyle: { backgroundColor: theme.colors.background },
+                    headerLeft: () => (
+                      <Image
+                        source={require('./assets/favicon.png')}
+                        style={{ width: 28, height: 28, marginLeft: 12, marginRight: 8 }}
+                        resizeMode="contain"
+                      />
+                    ),
+                  }}
+                >
+                  <Stack.Screen
+                    name="Settings"
+                    component={SettingsScreen}
+                    options={{ title: 'SpeakMCP' }}
+                  />
+                  <Stack.Screen
+                    name="Sessions"
+                    component={SessionListScreen}
+                    options={{ title: 'Chats' }}
+                  />
+                  <Stack.Screen name="Chat" component={ChatScreen} />
+                  <Stack.Screen name="Diagnostics" component={DiagnosticsScreen} />
+                  <Stack.Screen name="Personas" component={PersonasScreen} />
+                </Stack.Navigator>
+              </NavigationContainer>
+            </PersonaContext.Provider>
+          </OutboxContext.Provider>
+        </ConnectionContext.Provider>
+      </SessionContext.Provider>
     </ConfigContext.Provider>
   );
 }
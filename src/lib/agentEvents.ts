@@ -0,0 +1,64 @@
+/**
+ * SpeakMCP agent progress events
+ *
+ * Agent servers interleave progress/control events with the assistant's text, either as
+ * JSON objects with type "data-operation" inside delta.content or as named SSE events.
+ * The payload shape varies between server versions, so parseAgentEvent normalizes the
+ * fields the UI cares about and keeps the original payload in `raw`.
+ */
+
+export type AgentEvent = {
+  /** Event kind, e.g. "agent_initializing", "tool_call", "tool_result", "completion" */
+  type: string;
+  /** Short human-readable description of the step */
+  label?: string;
+  /** Tool being called, when the step is a tool invocation */
+  toolName?: string;
+  iteration?: number;
+  maxIterations?: number;
+  /** True when the server reports the agent run has finished */
+  isComplete?: boolean;
+  /** The untouched event payload */
+  raw: unknown;
+};
+
+const pickString = (...values: unknown[]): string | undefined => {
+  for (const v of values) {
+    if (typeof v === 'string' && v.trim()) return v.trim();
+  }
+  return undefined;
+};
+
+const pickNumber = (...values: unknown[]): number | undefined => {
+  for (const v of values) {
+    if (typeof v === 'number' && Number.isFinite(v)) return v;
+  }
+  return undefined;
+};
+
+/** True for JSON content tokens that carry an agent event rather than assistant text */
+export function isAgentEventPayload(obj: any): boolean {
+  return obj?.type === 'data-operation';
+}
+
+/**
+ * Normalize an agent event payload.
+ * `fallbackType` is used when the payload doesn't name its own type (e.g. the SSE event name).
+ */
+export function parseAgentEvent(payload: any, fallbackType = 'progress'): AgentEvent {
+  const data = payload?.type === 'data-operation' && payload?.data ? payload.data : payload;
+  const ctx = data?.ctx ?? data?.details ?? {};
+  // SpeakMCP progress updates carry the full step list; the newest step is the current one
+  const steps = Array.isArray(data?.steps) ? data.steps : [];
+  const step = steps[steps.length - 1] ?? {};
+
+  return {
+    type: pickString(step.type, data?.type !== 'data-operation' ? data?.type : undefined, fallbackType) ?? fallbackType,
+    label: pickString(step.title, step.description, data?.label, data?.title, data?.message, data?.description, ctx.label, ctx.message),
+    toolName: pickString(step.toolCall?.name, data?.toolName, data?.toolCall?.name, data?.tool?.name, ctx.toolName, ctx.name),
+    iteration: pickNumber(data?.currentIteration, data?.iteration, ctx.currentIteration, ctx.iteration),
+    maxIterations: pickNumber(data?.maxIterations, ctx.maxIterations),
+    isComplete: data?.isComplete === true || data?.type === 'completion' || undefined,
+    raw: payload,
+  };
+}
@@ -0,0 +1,144 @@
+/**
+ * Image attachments for multimodal messages
+ *
+ * Photos are downscaled and re-encoded as JPEG before they are stored, so a full-resolution
+ * camera shot doesn't end up in every request. On native the result is kept as a file in the
+ * app's document directory and only its URI is stored with the session; on web (no file
+ * system) the data URL itself is stored, so images there are made smaller still to leave room
+ * in the browser's storage quota. Base64 is read back when a request is built and
+ * kept in a small cache, since the whole history (photos included) goes out on every turn.
+ */
+import { Platform } from 'react-native';
+import * as ImagePicker from 'expo-image-picker';
+import { ImageManipulator, SaveFormat } from 'expo-image-manipulator';
+import { Directory, File, Paths } from 'expo-file-system';
+import { ChatMessage, ImageAttachment } from '../types/session';
+import { createLogger } from './logger';
+
+const log = createLogger('chat');
+
+// Long edge after downscaling; plenty for vision models, which tile larger images anyway
+const MAX_IMAGE_EDGE = 1024;
+const JPEG_QUALITY = 0.7;
+// Web sessions, photos included, share localStorage's ~5 MB; this keeps a photo around 50 KB
+const WEB_MAX_IMAGE_EDGE = 768;
+const WEB_JPEG_QUALITY = 0.5;
+const ATTACHMENTS_DIR = 'attachments';
+// Encoded images kept in memory, least recently used dropped first (~150 KB each)
+const MAX_CACHED_IMAGES = 20;
+
+// Data URLs by attachment ID; attachments never change once prepared, so entries don't go stale
+const dataUrlCache = new Map<string, string>();
+
+function generateAttachmentId(): string {
+  return `img_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+}
+
+function attachmentsDir(): Directory {
+  const dir = new Directory(Paths.document, ATTACHMENTS_DIR);
+  if (!dir.exists) dir.create({ intermediates: true, idempotent: true });
+  return dir;
+}
+
+/** Downscale, compress and store a picked image */
+export async function prepareImage(source: { uri: string; width: number; height: number }): Promise<ImageAttachment> {
+  const isWeb = Platform.OS === 'web';
+  const maxEdge = isWeb ? WEB_MAX_IMAGE_EDGE : MAX_IMAGE_EDGE;
+  const scale = Math.min(1, maxEdge / Math.max(source.width || 1, source.height || 1));
+  const context = ImageManipulator.manipulate(source.uri);
+  if (scale < 1) {
+    context.resize(source.width >= source.height
+      ? { width: Math.round(source.width * scale) }
+      : { height: Math.round(source.height * scale) });
+  }
+  const image = await context.renderAsync();
+  const result = await image.saveAsync({ compress: isWeb ? WEB_JPEG_QUALITY : JPEG_QUALITY, format: SaveFormat.JPEG, base64: isWeb });
+  const id = generateAttachmentId();
+
+  let uri = result.uri;
+  if (isWeb) {
+    uri = `data:image/jpeg;base64,${result.base64}`;
+  } else {
+    // The manipulator writes to the cache directory, which the OS may clear
+    const file = new File(attachmentsDir(), `${id}.jpg`);
+    new File(result.uri).move(file);
+    uri = file.uri;
+  }
+  log.info('Prepared image', `${result.width}x${result.height}`);
+  return { id, uri, mimeType: 'image/jpeg', width: result.width, height: result.height };
+}
+
+/**
+ * Let the user take a photo or pick images, then prepare them for sending.
+ * Resolves with an empty list when cancelled; throws when permission is denied.
+ */
+export async function pickImages(from: 'camera' | 'library'): Promise<ImageAttachment[]> {
+  if (from === 'camera') {
+    const permission = await ImagePicker.requestCameraPermissionsAsync();
+    if (!permission.granted) throw new Error('Camera permission is needed to take a photo');
+  }
+  const options: ImagePicker.ImagePickerOptions = { mediaTypes: ['images'], quality: 1 };
+  const result = from === 'camera'
+    ? await ImagePicker.launchCameraAsync(options)
+    : await ImagePicker.launchImageLibraryAsync({ ...options, allowsMultipleSelection: true, selectionLimit: 4 });
+  if (result.canceled) return [];
+  return Promise.all(result.assets.map((asset) => prepareImage(asset)));
+}
+
+/** The image as a base64 data URL for an `image_url` content part */
+export async function readAsDataUrl(attachment: ImageAttachment): Promise<string> {
+  if (attachment.uri.startsWith('data:')) return attachment.uri;
+  const base64 = await new File(attachment.uri).base64();
+  return `data:${attachment.mimeType};base64,${base64}`;
+}
+
+/** readAsDataUrl through the cache, so images already in the history aren't read again each turn */
+async function cachedDataUrl(attachment: ImageAttachment): Promise<string> {
+  if (attachment.uri.startsWith('data:')) return attachment.uri;
+  const cached = dataUrlCache.get(attachment.id);
+  if (cached !== undefined) {
+    // Re-insert to mark it as recently used
+    dataUrlCache.delete(attachment.id);
+    dataUrlCache.set(attachment.id, cached);
+    return cached;
+  }
+  const dataUrl = await readAsDataUrl(attachment);
+  dataUrlCache.set(attachment.id, dataUrl);
+  if (dataUrlCache.size > MAX_CACHED_IMAGES) {
+    dataUrlCache.delete(dataUrlCache.keys().next().value!);
+  }
+  return dataUrl;
+}
+
+/**
+ * Data URLs for every image in `messages`, keyed by attachment ID.
+ * Images whose file has gone missing are left out (and logged) rather than failing the request.
+ */
+export async function loadImageData(messages: ChatMessage[]): Promise<Record<string, string>> {
+  const attachments = messages.flatMap((m) => m.attachments ?? []);
+  const entries = await Promise.all(
+    attachments.map(async (a) => {
+      try {
+        return [a.id, await cachedDataUrl(a)] as const;
+      } catch (e) {
+        log.warn('Could not read image attachment', a.id, e);
+        return null;
+      }
+    }),
+  );
+  return Object.fromEntries(entries.filter((e): e is readonly [string, string] => e !== null));
+}
+
+/** Remove the stored files of attachments that are no longer referenced */
+export function deleteAttachments(attachments: ImageAttachment[]) {
+  for (const a of attachments) {
+    dataUrlCache.delete(a.id);
+    if (a.uri.startsWith('data:')) continue;
+    try {
+      const file = new File(a.uri);
+      if (file.exists) file.delete();
+    } catch (e) {
+      log.warn('Could not delete image attachment', a.id, e);
+    }
+  }
+}
@@ -0,0 +1,69 @@
+/**
+ * How the API key is attached to requests
+ *
+ * Providers have a default (Bearer for OpenAI-compatible servers, `x-api-key` for Anthropic,
+ * `api-key` for Azure); profiles can override it for gateways that expect something else.
+ */
+
+export type AuthScheme = 'bearer' | 'header' | 'basic' | 'none';
+
+export type AuthConfig = {
+  scheme: AuthScheme;
+  /** Header carrying the raw key when scheme is "header" */
+  headerName?: string;
+};
+
+export const AUTH_SCHEME_LABELS: Record<AuthScheme, string> = {
+  bearer: 'Bearer token',
+  header: 'Custom header',
+  basic: 'Basic auth',
+  none: 'None',
+};
+
+/**
+ * Headers that carry `apiKey` under `auth`. For basic auth the key is "username:password".
+ * Nothing is sent when the key is empty.
+ */
+export function buildAuthHeaders(auth: AuthConfig, apiKey: string): Record<string, string> {
+  if (!apiKey) return {};
+  switch (auth.scheme) {
+    case 'bearer':
+      return { Authorization: `Bearer ${apiKey}` };
+    case 'basic':
+      return { Authorization: `Basic ${btoa(apiKey)}` };
+    case 'header':
+      return auth.headerName?.trim() ? { [auth.headerName.trim()]: apiKey } : {};
+    case 'none':
+      return {};
+  }
+}
+
+/** Parse "Name: value" lines into a header map, skipping lines without a name */
+export function parseHeaderLines(text: string): Record<string, string> {
+  const out: Record<string, string> = {};
+  for (const line of text.split('\n')) {
+    const idx = line.indexOf(':');
+    const name = idx > 0 ? line.slice(0, idx).trim() : '';
+    if (name) out[name] = line.slice(idx + 1).trim();
+  }
+  return out;
+}
+
+/** Parse "key=value" lines into a query parameter map */
+export function parseQueryLines(text: string): Record<string, string> {
+  const out: Record<string, string> = {};
+  for (const line of text.split('\n')) {
+    const idx = line.indexOf('=');
+    const key = idx > 0 ? line.slice(0, idx).trim() : line.trim();
+    if (key) out[key] = idx > 0 ? line.slice(idx + 1).trim() : '';
+  }
+  return out;
+}
+
+export function formatHeaderLines(headers?: Record<string, string>): string {
+  return Object.entries(headers ?? {}).map(([k, v]) => `${k}: ${v}`).join('\n');
+}
+
+export function formatQueryLines(query?: Record<string, string>): string {
+  return Object.entries(query ?? {}).map(([k, v]) => `${k}=${v}`).join('\n');
+}
@@ -0,0 +1,106 @@
+/**
+ * Barge-in: coordinate hands-free speech recognition with text-to-speech playback
+ *
+ * While the assistant is talking the recognizer keeps running, but whatever it hears is treated
+ * as the assistant's own voice and never sent. When the microphone level stays high for a moment
+ * (the user talking over the assistant) playback stops and the recognizer's output counts again.
+ * Transcript heard before the barge-in is remembered and stripped from the user's utterance.
+ */
+import { useEffect, useRef } from 'react';
+import { SpeechQueue } from './speechQueue';
+import { createLogger } from './logger';
+
+const log = createLogger('voice');
+
+// expo-speech-recognition reports input volume from -2 to 10; below 0 is inaudible
+const BARGE_IN_LEVEL = 6;
+// How long the level must stay up, so a single loud syllable of the assistant doesn't count
+const BARGE_IN_SUSTAIN_MS = 500;
+// The recognizer may still finalize the assistant's last words shortly after playback ends
+const ECHO_TAIL_MS = 700;
+
+const normalize = (text: string) => text.toLowerCase().replace(/[^\p{L}\p{N}' ]+/gu, ' ').replace(/\s+/g, ' ').trim();
+
+export class BargeInGate {
+  private loudSince: number | null = null;
+  private quietUntil = 0;
+  private echo = '';
+  private wasActive = false;
+  private bargedIn = false;
+  private speech: SpeechQueue;
+
+  constructor(speech: SpeechQueue) {
+    this.speech = speech;
+  }
+
+  /** Start following playback; returns the function that stops it */
+  attach(): () => void {
+    return this.speech.subscribe((state) => {
+      const active = state.speaking || state.pending > 0;
+      if (this.wasActive && !active && !this.bargedIn) this.quietUntil = Date.now() + ECHO_TAIL_MS;
+      if (active && !this.wasActive) this.bargedIn = false;
+      this.wasActive = active;
+    });
+  }
+
+  /** Whether the assistant is talking, or has only just stopped */
+  get gated(): boolean {
+    const state = this.speech.getState();
+    return state.speaking || state.pending > 0 || Date.now() < this.quietUntil;
+  }
+
+  /**
+   * Feed a `volumechange` value. Stops playback and returns true when the user has started
+   * talking over the assistant.
+   */
+  onVolume(value: number): boolean {
+    const state = this.speech.getState();
+    if (!state.speaking || state.paused || value < BARGE_IN_LEVEL) {
+      this.loudSince = null;
+      return false;
+    }
+    const now = Date.now();
+    if (this.loudSince === null) this.loudSince = now;
+    if (now - this.loudSince < BARGE_IN_SUSTAIN_MS) return false;
+
+    log.info('Barge-in detected, stopping playback');
+    this.loudSince = null;
+    this.bargedIn = true;
+    this.quietUntil = 0;
+    this.speech.interrupt();
+    return true;
+  }
+
+  /**
+   * Filter a recognizer transcript. Returns null while it should be ignored (the assistant is
+   * talking), otherwise the transcript without the part heard before the user barged in.
+   */
+  transcript(text: string): string | null {
+    if (this.gated) {
+      this.echo = text;
+      return null;
+    }
+    if (!this.echo) return text;
+    const echo = normalize(this.echo);
+    const words = text.trim().split(/\s+/);
+    // Drop leading words until what was dropped matches the echo
+    for (let i = 1; i <= words.length; i++) {
+      if (normalize(words.slice(0, i).join(' ')) === echo) return words.slice(i).join(' ');
+    }
+    return text;
+  }
+
+  /** A recognition segment ended; the next one starts without echo */
+  endSegment() {
+    this.echo = '';
+  }
+}
+
+/** A BargeInGate for the lifetime of a component */
+export function useBargeIn(speech: SpeechQueue): BargeInGate {
+  const gateRef = useRef<BargeInGate | null>(null);
+  if (!gateRef.current) gateRef.current = new BargeInGate(speech);
+  const gate = gateRef.current;
+  useEffect(() => gate.attach(), [gate]);
+  return gate;
+}
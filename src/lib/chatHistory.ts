@@ -0,0 +1,64 @@
+/**
+ * Conversion from stored session messages to the wire format sent by OpenAIClient
+ */
+import { ChatMessage as SessionMessage } from '../types/session';
+import { ChatMessage, ContentPart } from './openaiClient';
+
+/** The text of a wire message's content, ignoring any images */
+export function contentText(content: ChatMessage['content']): string {
+  if (typeof content === 'string') return content;
+  return (content ?? []).map((p) => (p.type === 'text' ? p.text : '')).join('');
+}
+
+/**
+ * Build the message list for a chat request from a session's messages.
+ * OpenAI-compatible servers reject an assistant tool_calls message unless every call is
+ * followed by its tool result, so calls without a stored result are sent as plain text.
+ * Messages with images become content part arrays, using the data URLs in `images`
+ * (see loadImageData); images missing from it are dropped.
+ */
+export function toChatMessages(messages: SessionMessage[], images: Record<string, string> = {}): ChatMessage[] {
+  const answered = new Set(
+    messages.filter((m) => m.role === 'tool' && m.toolCallId).map((m) => m.toolCallId as string),
+  );
+  const sentCalls = new Set<string>();
+  const out: ChatMessage[] = [];
+
+  for (const m of messages) {
+    // Failed requests produced nothing worth sending back, apart from any partial text
+    if (m.status === 'error' && !m.content) continue;
+    if (m.role === 'tool') {
+      if (m.toolCallId && sentCalls.has(m.toolCallId)) {
+        out.push({ role: 'tool', tool_call_id: m.toolCallId, content: m.content });
+      }
+      continue;
+    }
+
+    const calls = m.toolCalls ?? [];
+    if (m.role === 'assistant' && calls.length > 0 && calls.every((c) => answered.has(c.id))) {
+      calls.forEach((c) => sentCalls.add(c.id));
+      out.push({
+        role: 'assistant',
+        content: m.content,
+        tool_calls: calls.map((c) => ({
+          id: c.id,
+          type: 'function',
+          function: { name: c.name, arguments: c.arguments },
+        })),
+      });
+      continue;
+    }
+
+    const imageParts: ContentPart[] = (m.attachments ?? [])
+      .filter((a) => images[a.id])
+      .map((a) => ({ type: 'image_url', image_url: { url: images[a.id] } }));
+    if (imageParts.length > 0) {
+      out.push({ role: m.role, content: [...(m.content ? [{ type: 'text' as const, text: m.content }] : []), ...imageParts] });
+      continue;
+    }
+
+    out.push({ role: m.role, content: m.content });
+  }
+
+  return out;
+}
@@ -0,0 +1,252 @@
+/**
+ * Hands-free conversation loop
+ *
+ * Runs a whole voice conversation without touching the phone:
+ * idle → listening → sending → speaking → listening.
+ * A pause after speech ends the utterance, listening is re-armed once the answer has been
+ * spoken, the recognizer is restarted when it errors or the OS stops it, and the loop goes idle
+ * after a stretch without speech. Each change of state can be signalled with an earcon.
+ *
+ * The loop doesn't talk to the recognizer itself; the screen that owns it supplies a driver.
+ */
+import { useEffect, useRef, useState } from 'react';
+import { SpeechQueue } from './speechQueue';
+import { Earcon, playEarcon } from './earcons';
+import { createLogger } from './logger';
+
+const log = createLogger('voice');
+
+export type LoopState = 'idle' | 'listening' | 'sending' | 'speaking';
+
+export type LoopOptions = {
+  /** Pause after speech that ends the utterance and sends it */
+  silenceMs: number;
+  /** Stop listening after this long without speech; 0 keeps listening */
+  idleTimeoutMs: number;
+  earcons: boolean;
+};
+
+export const LOOP_DEFAULTS: LoopOptions = {
+  silenceMs: 1500,
+  idleTimeoutMs: 60_000,
+  earcons: true,
+};
+
+/** What the loop needs from the screen's speech recognizer */
+export type RecognizerDriver = {
+  start: () => void;
+  /** Stop listening; the recognizer finalizes what it heard */
+  stop: () => void;
+  /** Stop listening and discard what was heard */
+  cancel: () => void;
+  /** Send an utterance the recognizer ended without finalizing */
+  submit: (text: string) => void;
+};
+
+const RESTART_DELAY_MS = 300;
+const MAX_RESTART_DELAY_MS = 5000;
+// Consecutive recognizer errors before the loop gives up
+const MAX_ERRORS = 5;
+// Errors that restarting won't fix
+const FATAL_ERRORS = new Set(['not-allowed', 'service-not-allowed', 'language-not-supported', 'audio-capture']);
+// Errors that only mean nothing was said
+const BENIGN_ERRORS = new Set(['no-speech', 'speech-timeout', 'aborted']);
+
+export class ConversationLoop {
+  private state: LoopState = 'idle';
+  private options: LoopOptions = LOOP_DEFAULTS;
+  private speech: SpeechQueue;
+  private driver: () => RecognizerDriver;
+  private listeners = new Set<(state: LoopState) => void>();
+  // Heard in the current utterance but not sent yet
+  private utterance = '';
+  private responseDone = true;
+  private errors = 0;
+  private fatal = false;
+  private silenceTimer: ReturnType<typeof setTimeout> | null = null;
+  private idleTimer: ReturnType<typeof setTimeout> | null = null;
+  private restartTimer: ReturnType<typeof setTimeout> | null = null;
+
+  /** `driver` is read on every use so the screen can hand in fresh callbacks each render */
+  constructor(speech: SpeechQueue, driver: () => RecognizerDriver) {
+    this.speech = speech;
+    this.driver = driver;
+  }
+
+  configure(options: LoopOptions) {
+    this.options = options;
+  }
+
+  getState(): LoopState {
+    return this.state;
+  }
+
+  get active(): boolean {
+    return this.state !== 'idle';
+  }
+
+  subscribe(listener: (state: LoopState) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /** Follow playback so listening resumes once the answer has been spoken */
+  attach(): () => void {
+    return this.speech.subscribe(({ speaking, pending }) => {
+      const talking = speaking || pending > 0;
+      if (talking && this.state === 'sending') this.setState('speaking');
+      else if (!talking && this.responseDone && this.state === 'speaking') this.listen();
+    });
+  }
+
+  start() {
+    if (this.active) return;
+    log.info('Hands-free conversation started');
+    this.errors = 0;
+    this.fatal = false;
+    this.responseDone = true;
+    this.listen();
+    this.driver().start();
+  }
+
+  /** End the conversation; `quiet` skips the earcon (e.g. when leaving the screen) */
+  stop(opts: { quiet?: boolean; earcon?: Earcon } = {}) {
+    if (!this.active) return;
+    log.info('Hands-free conversation stopped');
+    this.clearTimers();
+    this.clearTimer('restartTimer');
+    this.utterance = '';
+    this.setState('idle', opts.quiet ? undefined : opts.earcon ?? 'idle');
+    this.speech.interrupt();
+    this.driver().cancel();
+  }
+
+  /** The recognizer heard speech (interim or final) */
+  heard(text: string) {
+    if (!this.active || !text.trim()) return;
+    this.errors = 0;
+    // Speech gets through during an answer only once playback has stopped (barge-in)
+    if (this.state === 'speaking') this.listen();
+    this.clearTimer('idleTimer');
+    if (this.state !== 'listening') return;
+    this.utterance = text;
+    this.clearTimer('silenceTimer');
+    this.silenceTimer = setTimeout(() => {
+      this.silenceTimer = null;
+      log.debug('Silence after speech, ending utterance');
+      this.driver().stop();
+    }, this.options.silenceMs);
+  }
+
+  /** The utterance was used without sending it (a voice command); keep listening for the next */
+  handled() {
+    if (this.state === 'listening') this.listen();
+  }
+
+  /** A message is being sent; spoken or typed, the loop waits for its answer */
+  sending() {
+    if (!this.active) return;
+    this.clearTimers();
+    this.utterance = '';
+    this.responseDone = false;
+    this.setState('sending', 'sending');
+  }
+
+  /** The answer has arrived (or failed); listening resumes once it has been spoken */
+  responded() {
+    this.responseDone = true;
+    if (this.state !== 'sending' && this.state !== 'speaking') return;
+    const { speaking, pending } = this.speech.getState();
+    if (!speaking && pending === 0) this.listen();
+    else this.setState('speaking');
+  }
+
+  recognizerError(code?: string) {
+    if (!this.active || !code || BENIGN_ERRORS.has(code)) return;
+    if (FATAL_ERRORS.has(code)) this.fatal = true;
+    else this.errors++;
+    log.warn('Hands-free recognizer error', code, `(${this.errors} in a row)`);
+  }
+
+  /** The recognizer stopped, because of an error, the silence timeout or the OS */
+  recognizerEnded() {
+    if (!this.active) return;
+    if (this.fatal || this.errors >= MAX_ERRORS) {
+      this.stop({ earcon: 'error' });
+      return;
+    }
+    const leftover = this.utterance.trim();
+    if (this.state === 'listening' && leftover) {
+      // Some recognizers end without a final result; send what was heard anyway
+      this.utterance = '';
+      this.driver().submit(leftover);
+    }
+    const delay = this.errors === 0
+      ? RESTART_DELAY_MS
+      : Math.min(RESTART_DELAY_MS * 2 ** this.errors, MAX_RESTART_DELAY_MS);
+    this.clearTimer('restartTimer');
+    this.restartTimer = setTimeout(() => {
+      this.restartTimer = null;
+      // Keep the recognizer running while the answer plays too, so the user can barge in
+      if (this.active) this.driver().start();
+    }, delay);
+  }
+
+  private listen() {
+    this.clearTimers();
+    this.utterance = '';
+    this.setState('listening', 'listening');
+    if (this.options.idleTimeoutMs > 0) {
+      this.idleTimer = setTimeout(() => {
+        this.idleTimer = null;
+        log.info('No speech for a while, ending hands-free conversation');
+        this.stop();
+      }, this.options.idleTimeoutMs);
+    }
+  }
+
+  private setState(state: LoopState, earcon?: Earcon) {
+    if (state === this.state) return;
+    this.state = state;
+    if (earcon && this.options.earcons) playEarcon(earcon);
+    this.listeners.forEach((l) => l(state));
+  }
+
+  private clearTimer(name: 'silenceTimer' | 'idleTimer' | 'restartTimer') {
+    const timer = this[name];
+    if (timer) clearTimeout(timer);
+    this[name] = null;
+  }
+
+  /** Clear the listening timers; a pending recognizer restart is kept */
+  private clearTimers() {
+    this.clearTimer('silenceTimer');
+    this.clearTimer('idleTimer');
+  }
+}
+
+/** A ConversationLoop owned by a component, with its state for rendering */
+export function useConversationLoop(speech: SpeechQueue, driver: () => RecognizerDriver, options: LoopOptions) {
+  const loopRef = useRef<ConversationLoop | null>(null);
+  if (!loopRef.current) loopRef.current = new ConversationLoop(speech, driver);
+  const loop = loopRef.current;
+  const [state, setState] = useState<LoopState>(loop.getState());
+
+  useEffect(() => {
+    loop.configure(options);
+  }, [loop, options.silenceMs, options.idleTimeoutMs, options.earcons]);
+
+  useEffect(() => {
+    const detachSpeech = loop.attach();
+    const unsubscribe = loop.subscribe(setState);
+    return () => {
+      unsubscribe();
+      detachSpeech();
+      loop.stop({ quiet: true });
+    };
+  }, [loop]);
+
+  return { loop, state } as const;
+}
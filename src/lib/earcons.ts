@@ -0,0 +1,33 @@
+/**
+ * Short sounds that tell a driver what the hands-free conversation is doing without looking
+ */
+import { AudioPlayer, createAudioPlayer } from 'expo-audio';
+import { createLogger } from './logger';
+
+const log = createLogger('voice');
+
+export type Earcon = 'listening' | 'sending' | 'idle' | 'error';
+
+const SOURCES: Record<Earcon, number> = {
+  listening: require('../../assets/earcons/listening.wav'),
+  sending: require('../../assets/earcons/sending.wav'),
+  idle: require('../../assets/earcons/idle.wav'),
+  error: require('../../assets/earcons/error.wav'),
+};
+
+// Players are created on first use and kept, so repeated earcons start without loading delay
+const players: Partial<Record<Earcon, AudioPlayer>> = {};
+
+export function playEarcon(earcon: Earcon) {
+  try {
+    let player = players[earcon];
+    if (!player) {
+      player = createAudioPlayer(SOURCES[earcon]);
+      players[earcon] = player;
+    }
+    player.seekTo(0).catch(() => {});
+    player.play();
+  } catch (e) {
+    log.warn('Could not play earcon', earcon, e);
+  }
+}
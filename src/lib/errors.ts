@@ -0,0 +1,171 @@
+/**
+ * Typed errors for OpenAI-compatible API failures
+ *
+ * OpenAIClient maps HTTP statuses, error bodies and network failures onto these classes so
+ * callers can branch on `kind` (e.g. offer "Open settings" for authentication errors) and
+ * so the client knows which failures are worth retrying.
+ */
+import type { MessageError } from '../types/session';
+
+export type ApiErrorKind =
+  | 'authentication'
+  | 'rate_limit'
+  | 'model_not_found'
+  | 'context_length'
+  | 'server'
+  | 'network'
+  | 'unknown';
+
+export class ApiError extends Error {
+  readonly kind: ApiErrorKind;
+  /** HTTP status, when the server answered at all */
+  readonly status?: number;
+  /** Whether repeating the same request may succeed */
+  readonly retryable: boolean;
+
+  constructor(kind: ApiErrorKind, message: string, opts: { status?: number; retryable?: boolean } = {}) {
+    super(message);
+    this.name = 'ApiError';
+    this.kind = kind;
+    this.status = opts.status;
+    this.retryable = opts.retryable ?? false;
+  }
+}
+
+export class AuthenticationError extends ApiError {
+  constructor(message: string, status?: number) {
+    super('authentication', message, { status });
+    this.name = 'AuthenticationError';
+  }
+}
+
+export class RateLimitError extends ApiError {
+  /** Server-requested wait from the Retry-After header, if any */
+  readonly retryAfterMs?: number;
+
+  constructor(message: string, opts: { status?: number; retryAfterMs?: number; retryable?: boolean } = {}) {
+    super('rate_limit', message, { status: opts.status, retryable: opts.retryable ?? true });
+    this.name = 'RateLimitError';
+    this.retryAfterMs = opts.retryAfterMs;
+  }
+}
+
+export class ModelNotFoundError extends ApiError {
+  readonly model?: string;
+
+  constructor(message: string, opts: { status?: number; model?: string } = {}) {
+    super('model_not_found', message, { status: opts.status });
+    this.name = 'ModelNotFoundError';
+    this.model = opts.model;
+  }
+}
+
+export class ContextLengthError extends ApiError {
+  constructor(message: string, status?: number) {
+    super('context_length', message, { status });
+    this.name = 'ContextLengthError';
+  }
+}
+
+export class ServerError extends ApiError {
+  constructor(message: string, status?: number) {
+    super('server', message, { status, retryable: true });
+    this.name = 'ServerError';
+  }
+}
+
+export class NetworkError extends ApiError {
+  constructor(message: string) {
+    super('network', message, { retryable: true });
+    this.name = 'NetworkError';
+  }
+}
+
+/** Parse a Retry-After header (delta-seconds or HTTP date) into milliseconds */
+export function parseRetryAfter(value: string | null | undefined): number | undefined {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  if (!Number.isNaN(date)) return Math.max(0, date - Date.now());
+  return undefined;
+}
+
+/** Pull `message` and `code` out of the usual `{ error: { message, code } }` body shapes */
+function describeBody(body: string): { message: string; code: string } {
+  try {
+    const obj = JSON.parse(body);
+    const err = obj?.error ?? obj;
+    const message = (typeof err === 'string' ? err : err?.message ?? obj?.message) || body;
+    const code = String(err?.code ?? err?.type ?? obj?.code ?? '');
+    return { message: String(message), code };
+  } catch {
+    return { message: body, code: '' };
+  }
+}
+
+/** Map a failed HTTP response onto a typed error */
+export function errorFromResponse(
+  status: number,
+  body: string,
+  headers?: { get(name: string): string | null },
+  model?: string,
+): ApiError {
+  const { message, code } = describeBody(body);
+  const text = `${code} ${message}`.toLowerCase();
+  const detail = message || `HTTP ${status}`;
+
+  if (/context_length|maximum context|context length|too many tokens|prompt is too long/.test(text)) {
+    return new ContextLengthError(detail, status);
+  }
+  if (status === 401 || status === 403) {
+    return new AuthenticationError(detail, status);
+  }
+  if (status === 429) {
+    // Exhausted quota won't clear up by waiting a few seconds
+    const quota = /insufficient_quota|quota/.test(text);
+    return new RateLimitError(detail, {
+      status,
+      retryAfterMs: parseRetryAfter(headers?.get('retry-after')),
+      retryable: !quota,
+    });
+  }
+  if (status === 404 && /model/.test(text)) {
+    return new ModelNotFoundError(detail, { status, model });
+  }
+  if (status >= 500 || status === 408) {
+    return new ServerError(detail, status);
+  }
+  return new ApiError('unknown', `Request failed: ${status} ${detail}`, { status });
+}
+
+/** Map an error payload received inside an otherwise successful stream */
+export function errorFromStreamPayload(data: string): ApiError {
+  const { message, code } = describeBody(data);
+  const text = `${code} ${message}`.toLowerCase();
+  if (/context_length|maximum context|context length/.test(text)) return new ContextLengthError(message);
+  if (/rate_limit|rate limit/.test(text)) return new RateLimitError(message, { retryable: false });
+  if (/server_error|overloaded/.test(text)) return new ServerError(message);
+  return new ApiError('unknown', message);
+}
+
+/** Convert low-level fetch/XHR failures (TypeError "Network request failed" etc.) */
+export function toApiError(e: unknown): unknown {
+  if (e instanceof ApiError) return e;
+  if (e instanceof TypeError || /network request failed|failed to fetch|network error|timed out/i.test((e as any)?.message ?? '')) {
+    return new NetworkError((e as any)?.message || 'Network request failed');
+  }
+  return e;
+}
+
+/** What the error bubble of a failed chat request shows */
+export function toMessageError(e: unknown): MessageError {
+  const error: MessageError = {
+    kind: e instanceof ApiError ? e.kind : 'unknown',
+    message: (e as any)?.message || 'Unknown error',
+  };
+  if (e instanceof RateLimitError && e.retryAfterMs !== undefined) {
+    error.retryAt = Date.now() + e.retryAfterMs;
+  }
+  return error;
+}
@@ -0,0 +1,60 @@
+/**
+ * Rough language detection for reading replies aloud in their own language
+ *
+ * Non-Latin scripts identify a language (or a small family) on their own; Latin-script text is
+ * scored by common function words. This is only meant to pick a text-to-speech voice, so it
+ * returns null rather than guess when the text is short or ambiguous.
+ */
+
+// [ISO 639-1 code, pattern for the script]; checked in order, Japanese before Chinese
+// because Japanese text mixes kana with kanji
+const SCRIPTS: [string, RegExp][] = [
+  ['ja', /[぀-ヿ]/g],
+  ['ko', /[가-힯ᄀ-ᇿ]/g],
+  ['zh', /[一-鿿]/g],
+  ['ru', /[Ѐ-ӿ]/g],
+  ['el', /[Ͱ-Ͽ]/g],
+  ['he', /[֐-׿]/g],
+  ['ar', /[؀-ۿ]/g],
+  ['hi', /[ऀ-ॿ]/g],
+  ['th', /[฀-๿]/g],
+];
+
+const FUNCTION_WORDS: Record<string, string[]> = {
+  en: ['the', 'and', 'is', 'are', 'of', 'to', 'in', 'that', 'it', 'you', 'for', 'with', 'this', 'was', 'not'],
+  de: ['der', 'die', 'das', 'und', 'ist', 'nicht', 'ich', 'sie', 'mit', 'ein', 'eine', 'zu', 'auf', 'den', 'auch'],
+  fr: ['le', 'la', 'les', 'et', 'est', 'des', 'une', 'que', 'pour', 'dans', 'pas', 'vous', 'avec', 'sur', 'ce'],
+  es: ['el', 'la', 'los', 'las', 'y', 'es', 'que', 'de', 'en', 'un', 'una', 'por', 'para', 'con', 'no'],
+  it: ['il', 'la', 'che', 'di', 'e', 'è', 'un', 'una', 'per', 'non', 'sono', 'con', 'gli', 'della', 'anche'],
+  pt: ['o', 'a', 'os', 'as', 'e', 'é', 'que', 'de', 'um', 'uma', 'para', 'não', 'com', 'em', 'você'],
+  nl: ['de', 'het', 'een', 'en', 'is', 'van', 'niet', 'dat', 'ik', 'je', 'met', 'op', 'zijn', 'voor', 'ook'],
+};
+
+// Fewer matched words than this is too little to go on
+const MIN_WORD_HITS = 2;
+
+/** The language `text` is most likely written in as an ISO 639-1 code, or null if unsure */
+export function detectLanguage(text: string): string | null {
+  const letters = text.replace(/[\s\d.,;:!?'"“”‘’()[\]{}\-–—…*_#`|/\\]/g, '').length;
+  if (letters === 0) return null;
+  for (const [lang, pattern] of SCRIPTS) {
+    const count = text.match(pattern)?.length ?? 0;
+    if (count / letters > 0.3) return lang;
+  }
+
+  const words = text.toLowerCase().split(/[^\p{L}']+/u).filter(Boolean);
+  let best: string | null = null;
+  let bestHits = 0;
+  let runnerUp = 0;
+  for (const [lang, list] of Object.entries(FUNCTION_WORDS)) {
+    const hits = words.filter((w) => list.includes(w)).length;
+    if (hits > bestHits) {
+      runnerUp = bestHits;
+      best = lang;
+      bestHits = hits;
+    } else if (hits > runnerUp) {
+      runnerUp = hits;
+    }
+  }
+  return bestHits >= MIN_WORD_HITS && bestHits > runnerUp ? best : null;
+}
@@ -0,0 +1,211 @@
+/**
+ * Central leveled logger
+ *
+ * Every entry is redacted before it is printed or stored: Authorization headers, API keys,
+ * bearer tokens and any object field that looks like a secret are replaced with [REDACTED],
+ * as are the custom auth headers and extra header/query values of the current config.
+ * Entries at `info` and above are kept in a ring buffer persisted to AsyncStorage so the
+ * Diagnostics screen can show and export them after a restart.
+ */
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Platform } from 'react-native';
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+export type LogSubsystem = 'client' | 'voice' | 'config' | 'sessions' | 'chat' | 'app';
+
+export type LogEntry = {
+  timestamp: number;
+  level: LogLevel;
+  subsystem: LogSubsystem;
+  message: string;
+};
+
+const LEVEL_ORDER: Record<LogLevel, number> = { debug: 0, info: 1, warn: 2, error: 3 };
+
+const STORAGE_KEY = 'diagnostics_log_v1';
+const MAX_ENTRIES = 500;
+const MAX_MESSAGE_LENGTH = 2000;
+const PERSIST_DELAY_MS = 2000;
+
+// debug is console-only (per-token noise); everything else is also buffered
+const BUFFER_MIN_LEVEL: LogLevel = 'info';
+const CONSOLE_MIN_LEVEL: LogLevel = typeof __DEV__ !== 'undefined' && __DEV__ ? 'debug' : 'info';
+
+const REDACTED = '[REDACTED]';
+const SECRET_KEY_PATTERN = /^(authorization|cookie|password|x-api-key|api[-_]?key|.*secret|.*[-_]?token)$/i;
+// Shorter configured values (e.g. a "1" header) would blank out unrelated text
+const MIN_REDACTED_VALUE_LENGTH = 4;
+
+// Set from the config through setRedactions()
+let configuredKeys = new Set<string>();
+let configuredKeyPattern: RegExp | null = null;
+let configuredValues: string[] = [];
+
+let entries: LogEntry[] = [];
+// Settles once the previous runs' entries are merged in; the buffer isn't written before that
+let loading: Promise<void> | null = null;
+let persistTimer: ReturnType<typeof setTimeout> | null = null;
+const listeners = new Set<(entries: LogEntry[]) => void>();
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Also redact these header/field names and literal values from now on, e.g. a profile's
+ * custom auth header and the values of its extra headers. Replaces the previous set.
+ */
+export function setRedactions(opts: { keys?: string[]; values?: string[] }) {
+  const keys = (opts.keys ?? []).map((k) => k.trim().toLowerCase()).filter(Boolean);
+  configuredKeys = new Set(keys);
+  configuredKeyPattern = keys.length
+    ? new RegExp(`("(?:${keys.map(escapeRegExp).join('|')})"\\s*:\\s*")[^"]*"`, 'gi')
+    : null;
+  const values = (opts.values ?? [])
+    .flatMap((v) => [v, encodeURIComponent(v)])
+    .filter((v) => v.length >= MIN_REDACTED_VALUE_LENGTH);
+  // Longest first, so a value that contains another one is replaced whole
+  configuredValues = [...new Set(values)].sort((a, b) => b.length - a.length);
+}
+
+/** Strip secrets from a string */
+export function redactString(value: string): string {
+  let out = value
+    .replace(/\b(Bearer|Basic)\s+[A-Za-z0-9._~+/=-]+/gi, `$1 ${REDACTED}`)
+    .replace(/\bsk-[A-Za-z0-9_-]{8,}/g, REDACTED)
+    .replace(/("(?:authorization|api[-_]?key|x-api-key)"\s*:\s*")[^"]*"/gi, `$1${REDACTED}"`)
+    .replace(/([?&](?:api[-_]?key|key|token|access_token)=)[^&\s]+/gi, `$1${REDACTED}`);
+  if (configuredKeyPattern) out = out.replace(configuredKeyPattern, `$1${REDACTED}"`);
+  for (const secret of configuredValues) out = out.split(secret).join(REDACTED);
+  return out;
+}
+
+function isSecretKey(key: string): boolean {
+  return SECRET_KEY_PATTERN.test(key) || configuredKeys.has(key.toLowerCase());
+}
+
+/** Deep-copy a value with secret-looking fields and values redacted */
+export function redact(value: unknown, depth = 0): unknown {
+  if (typeof value === 'string') return redactString(value);
+  if (value === null || typeof value !== 'object') return value;
+  if (depth > 5) return '[Object]';
+  if (value instanceof Error) {
+    return { name: value.name, message: redactString(value.message) };
+  }
+  if (Array.isArray(value)) return value.map((v) => redact(v, depth + 1));
+  const out: Record<string, unknown> = {};
+  for (const [k, v] of Object.entries(value as Record<string, unknown>)) {
+    out[k] = isSecretKey(k) && v ? REDACTED : redact(v, depth + 1);
+  }
+  return out;
+}
+
+function formatArg(arg: unknown): string {
+  const clean = redact(arg);
+  if (typeof clean === 'string') return clean;
+  try {
+    return JSON.stringify(clean);
+  } catch {
+    return String(clean);
+  }
+}
+
+function schedulePersist() {
+  if (persistTimer) return;
+  persistTimer = setTimeout(() => {
+    persistTimer = null;
+    // Writing before the stored entries are merged in would replace the previous run's logs
+    loadLogs()
+      .then(() => AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(entries)))
+      .catch(() => {});
+  }, PERSIST_DELAY_MS);
+}
+
+function notify() {
+  listeners.forEach((l) => l(entries));
+}
+
+function record(level: LogLevel, subsystem: LogSubsystem, args: unknown[]) {
+  const message = args.map(formatArg).join(' ');
+
+  if (LEVEL_ORDER[level] >= LEVEL_ORDER[CONSOLE_MIN_LEVEL]) {
+    const line = `[${subsystem}] ${message}`;
+    if (level === 'error') console.error(line);
+    else if (level === 'warn') console.warn(line);
+    else console.log(line);
+  }
+
+  if (LEVEL_ORDER[level] < LEVEL_ORDER[BUFFER_MIN_LEVEL]) return;
+  entries = [...entries, { timestamp: Date.now(), level, subsystem, message: message.slice(0, MAX_MESSAGE_LENGTH) }]
+    .slice(-MAX_ENTRIES);
+  schedulePersist();
+  notify();
+}
+
+export type Logger = {
+  debug: (...args: unknown[]) => void;
+  info: (...args: unknown[]) => void;
+  warn: (...args: unknown[]) => void;
+  error: (...args: unknown[]) => void;
+};
+
+export function createLogger(subsystem: LogSubsystem): Logger {
+  return {
+    debug: (...args) => record('debug', subsystem, args),
+    info: (...args) => record('info', subsystem, args),
+    warn: (...args) => record('warn', subsystem, args),
+    error: (...args) => record('error', subsystem, args),
+  };
+}
+
+async function mergeStoredLogs() {
+  try {
+    const raw = await AsyncStorage.getItem(STORAGE_KEY);
+    const stored = raw ? (JSON.parse(raw) as LogEntry[]) : [];
+    if (Array.isArray(stored)) {
+      entries = [...stored, ...entries].slice(-MAX_ENTRIES);
+      notify();
+    }
+  } catch {}
+}
+
+/** Load entries persisted by previous app runs (merged ahead of anything logged since launch) */
+export async function loadLogs(): Promise<LogEntry[]> {
+  loading ??= mergeStoredLogs();
+  await loading;
+  return entries;
+}
+
+export function getLogs(): LogEntry[] {
+  return entries;
+}
+
+export function subscribeLogs(listener: (entries: LogEntry[]) => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export async function clearLogs() {
+  // Otherwise a load still in progress would bring the stored entries back
+  await loadLogs();
+  entries = [];
+  notify();
+  await AsyncStorage.removeItem(STORAGE_KEY).catch(() => {});
+}
+
+export function formatLogEntry(e: LogEntry): string {
+  return `${new Date(e.timestamp).toISOString()} ${e.level.toUpperCase().padEnd(5)} [${e.subsystem}] ${e.message}`;
+}
+
+/** Plain-text log bundle for bug reports; entries are already redacted when recorded */
+export function exportLogBundle(filter?: LogSubsystem): string {
+  const list = filter ? entries.filter((e) => e.subsystem === filter) : entries;
+  const header = [
+    'SpeakMCP Mobile diagnostics',
+    `Generated: ${new Date().toISOString()}`,
+    `Platform: ${Platform.OS} ${String(Platform.Version ?? '')}`.trim(),
+    `Entries: ${list.length}${filter ? ` (subsystem: ${filter})` : ''}`,
+    '',
+  ];
+  return [...header, ...list.map(formatLogEntry)].join('\n');
+}
@@ -1,24 +1,210 @@
+import { SSEEvent } from './sse';
+import { AgentEvent, isAgentEventPayload, parseAgentEvent } from './agentEvents';
+import { Transport, defaultTransport } from './transport';
+import { ProviderAdapter, ProviderId, getProvider } from './providers';
+import { AuthConfig, buildAuthHeaders } from './auth';
+import { createLogger } from './logger';
+import { ApiError, RateLimitError, errorFromResponse, errorFromStreamPayload, toApiError } from './errors';
+
+const log = createLogger('client');
+
 export type OpenAIConfig = {
   baseUrl: string;    // OpenAI-compatible API base URL e.g., https://api.openai.com/v1
   apiKey: string;
   model?: string; // model name for /v1/chat/completions
+  provider?: ProviderId; // API flavour; defaults to OpenAI-compatible
+  auth?: AuthConfig; // how apiKey is sent; defaults to the provider's scheme
+  extraHeaders?: Record<string, string>; // sent with every request, e.g. org or tenant IDs
+  extraQuery?: Record<string, string>; // appended to every request URL
+  azureDeployment?: string; // Azure OpenAI deployment name
+  azureApiVersion?: string; // Azure OpenAI api-version query parameter
+};
+
+/** Everything needed to reach a server, independent of the model being used */
+export type ServerConnection = Omit<OpenAIConfig, 'model'>;
+
+/** The connection fields of a profile or config, e.g. to key hooks that talk to the server */
+export function serverConnection(cfg: ServerConnection): ServerConnection {
+  return {
+    baseUrl: cfg.baseUrl,
+    apiKey: cfg.apiKey,
+    provider: cfg.provider,
+    auth: cfg.auth,
+    extraHeaders: cfg.extraHeaders,
+    extraQuery: cfg.extraQuery,
+    azureDeployment: cfg.azureDeployment,
+    azureApiVersion: cfg.azureApiVersion,
+  };
+}
+
+/** Whether a connection has everything it needs to be used: a base URL, and a key unless none is needed */
+export function isServerConfigured(cfg: ServerConnection): boolean {
+  if (!cfg.baseUrl.trim()) return false;
+  const adapter = getProvider(cfg.provider);
+  const scheme = (cfg.auth ?? adapter.defaultAuth).scheme;
+  return !!cfg.apiKey || scheme === 'none' || !!adapter.keyOptional;
+}
+
+export type ToolCall = {
+  id: string;
+  type: 'function';
+  function: {
+    name: string;
+    /** JSON-encoded arguments; may be incomplete while still streaming */
+    arguments: string;
+  };
 };
 
+/** OpenAI-style multimodal content; images are sent as base64 data URLs */
+export type ContentPart =
+  | { type: 'text'; text: string }
+  | { type: 'image_url'; image_url: { url: string; detail?: 'auto' | 'low' | 'high' } };
+
 export type ChatMessage = {
   id?: string;
-  role: 'system' | 'user' | 'assistant';
-  content?: string;
+  role: 'system' | 'user' | 'assistant' | 'tool';
+  /** Plain text, or text and image parts for multimodal user messages */
+  content?: string | ContentPart[];
+  /** Tool invocations requested by an assistant message */
+  tool_calls?: ToolCall[];
+  /** For role "tool": the tool call this message is the result of */
+  tool_call_id?: string;
 };
 
+export type ModelInfo = {
+  id: string;
+  ownedBy?: string;
+};
+
+export type ConnectionStatus = 'reachable' | 'unreachable' | 'unauthorized';
+
+export type HealthCheck = {
+  status: ConnectionStatus;
+  /** Round-trip time of the check; unset when the server never answered */
+  latencyMs?: number;
+  httpStatus?: number;
+};
+
+const HEALTH_TIMEOUT_MS = 10000;
+
+export type ToolResult = {
+  toolCallId: string;
+  content: string;
+};
+
+/** Sampling parameters; unset fields are left to the server's defaults */
+export type GenerationParams = {
+  temperature?: number;
+  maxTokens?: number;
+  topP?: number;
+  stop?: string[];
+};
+
+export type ChatOptions = {
+  /** SpeakMCP server-side conversation to continue; sent as conversation_id */
+  conversationId?: string;
+  /** Called when the server reports the conversation ID (header, JSON body or stream chunk) */
+  onConversationId?: (conversationId: string) => void;
+  /** Aborts the request, including an in-progress stream */
+  signal?: AbortSignal;
+  /** Called with the assembled tool calls every time a streamed tool call delta arrives */
+  onToolCalls?: (toolCalls: ToolCall[]) => void;
+  /** Called when the server streams back the result of a tool it ran */
+  onToolResult?: (result: ToolResult) => void;
+  /** Called for SpeakMCP agent progress/control events; these never reach onToken */
+  onEvent?: (event: AgentEvent) => void;
+  /** Prepended as a system message unless the history already starts with one */
+  systemPrompt?: string;
+  params?: GenerationParams;
+  /** Retries for transient failures before anything has streamed (default 3) */
+  maxRetries?: number;
+  /** Called before each automatic retry */
+  onRetry?: (info: RetryInfo) => void;
+};
+
+export type RetryInfo = {
+  /** 1-based number of the upcoming retry */
+  attempt: number;
+  delayMs: number;
+  error: ApiError;
+};
+
+const DEFAULT_MAX_RETRIES = 3;
+const RETRY_BASE_DELAY_MS = 1000;
+const RETRY_MAX_DELAY_MS = 16000;
+// Longer server-requested waits are surfaced to the user instead of retried silently
+const MAX_AUTO_RETRY_AFTER_MS = 30000;
+
+/** Exponential backoff with full jitter, or the server's Retry-After when it sent one */
+function retryDelay(error: ApiError, attempt: number): number {
+  if (error instanceof RateLimitError && error.retryAfterMs !== undefined) return error.retryAfterMs;
+  const cap = Math.min(RETRY_MAX_DELAY_MS, RETRY_BASE_DELAY_MS * 2 ** (attempt - 1));
+  return Math.round(cap / 2 + Math.random() * (cap / 2));
+}
+
+/**
+ * Merge streamed tool_calls deltas into the calls assembled so far.
+ * Deltas are matched by index (falling back to id), and name/argument fragments are appended.
+ */
+function mergeToolCallDeltas(calls: ToolCall[], deltas: any[]) {
+  deltas.forEach((delta, position) => {
+    let idx = typeof delta?.index === 'number' ? delta.index : -1;
+    if (idx < 0 && delta?.id) idx = calls.findIndex((c) => c.id === delta.id);
+    if (idx < 0) idx = position;
+    if (!calls[idx]) {
+      calls[idx] = { id: '', type: 'function', function: { name: '', arguments: '' } };
+    }
+    const call = calls[idx];
+    if (delta?.id) call.id = delta.id;
+    const fn = delta?.function ?? {};
+    if (typeof fn.name === 'string') call.function.name += fn.name;
+    if (typeof fn.arguments === 'string') {
+      call.function.arguments += fn.arguments;
+    } else if (fn.arguments && typeof fn.arguments === 'object') {
+      // Some servers (e.g. Ollama) send arguments as an already-parsed object
+      call.function.arguments = JSON.stringify(fn.arguments);
+    }
+  });
+}
+
+/** Error thrown by chat() when its AbortSignal fires */
+export function createAbortError(): Error {
+  const err = new Error('Chat request was cancelled');
+  err.name = 'AbortError';
+  return err;
+}
+
+export function isAbortError(e: unknown): boolean {
+  return (e as any)?.name === 'AbortError';
+}
 
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(createAbortError());
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(createAbortError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort);
+  });
+}
 
 export class OpenAIClient {
   private cfg: OpenAIConfig;
   private baseUrl: string;
+  private transport: Transport;
+  private adapter: ProviderAdapter;
 
-  constructor(cfg: OpenAIConfig) {
+  /** `transport` defaults to the platform's (XHR streaming on native, fetch on web) */
+  constructor(cfg: OpenAIConfig, transport: Transport = defaultTransport()) {
     this.cfg = { ...cfg, baseUrl: cfg.baseUrl?.trim?.() ?? '' };
     this.baseUrl = this.normalizeBaseUrl(this.cfg.baseUrl);
+    this.transport = transport;
+    this.adapter = getProvider(cfg.provider);
   }
 
   private normalizeBaseUrl(raw: string): string {
@@ -29,205 +215,317 @@ export class OpenAIClient {
     return trimmed.replace(/\/+$/, '');
   }
 
-  private authHeaders() {
+  /** Provider headers, the API key under the configured auth scheme, then any extra headers */
+  private authHeaders(): Record<string, string> {
     return {
-      Authorization: `Bearer ${this.cfg.apiKey}`,
-      'Content-Type': 'application/json',
-    } as const;
+      ...this.adapter.headers(),
+      ...buildAuthHeaders(this.cfg.auth ?? this.adapter.defaultAuth, this.cfg.apiKey),
+      ...this.cfg.extraHeaders,
+    };
+  }
+
+  /** Pull a conversation ID out of a response payload, accepting the spellings SpeakMCP has used */
+  private extractConversationId(obj: any): string | undefined {
+    const id = obj?.conversation_id ?? obj?.conversationId;
+    return typeof id === 'string' && id.length > 0 ? id : undefined;
+  }
+
+  /**
+   * Split an SSE data payload into JSON documents.
+   * Spec-wise consecutive data: lines form one payload, but some servers put a complete
+   * JSON chunk on each line without blank-line separators, so fall back to per-line parsing.
+   */
+  private splitSSEPayloads(data: string): string[] {
+    const trimmed = data.trim();
+    if (!trimmed) return [];
+    if (!trimmed.includes('\n')) return [trimmed];
+    try {
+      JSON.parse(trimmed);
+      return [trimmed];
+    } catch {
+      return trimmed.split('\n').map((l) => l.trim()).filter(Boolean);
+    }
+  }
+
+  /** Extract the assistant content from a non-streaming completion body, or return the raw text */
+  private parseCompletionText(text: string, onJson: (obj: any) => void): string {
+    log.debug('Response text:', text);
+    try {
+      const j = this.adapter.normalizeCompletion(JSON.parse(text));
+      onJson(j);
+      const content = j?.choices?.[0]?.message?.content ?? '';
+      log.debug('Extracted content:', content);
+      return typeof content === 'string' ? content : text;
+    } catch (parseError) {
+      log.error('JSON parse error:', parseError);
+      return text;
+    }
   }
 
   private getUrl(endpoint: string): string {
     const normalizedEndpoint = endpoint.startsWith('/') ? endpoint : `/${endpoint}`;
-    return `${this.baseUrl}${normalizedEndpoint}`;
+    const path = this.adapter.resolvePath?.(normalizedEndpoint, this.cfg) ?? normalizedEndpoint;
+    const query = Object.entries({ ...this.adapter.query?.(this.cfg), ...this.cfg.extraQuery })
+      .map(([k, v]) => `${encodeURIComponent(k)}=${encodeURIComponent(v)}`)
+      .join('&');
+    return `${this.baseUrl}${path}${query ? `?${query}` : ''}`;
   }
 
-  /** Health check for the API */
-  async health(): Promise<boolean> {
-    const url = this.getUrl('/models');
-    console.log('[OpenAIClient] Health check:', url);
+  /**
+   * Health check for the API: GET /models with a timeout, measuring latency.
+   * Any HTTP answer below 500 counts as reachable, since some compatible servers don't
+   * implement /models; 401/403 mean the server is up but rejects the API key.
+   */
+  async health(): Promise<HealthCheck> {
+    const url = this.getUrl(this.adapter.modelsPath);
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), HEALTH_TIMEOUT_MS);
+    const started = Date.now();
     try {
-      const res = await fetch(url, { headers: this.authHeaders() });
-      console.log('[OpenAIClient] Health check response:', res.status, res.statusText);
-      return res.ok;
+      const res = await this.transport.request(url, { headers: this.authHeaders(), signal: controller.signal });
+      const latencyMs = Date.now() - started;
+      log.debug('Health check response:', res.status, `${latencyMs}ms`);
+      if (res.status === 401 || res.status === 403) {
+        return { status: 'unauthorized', latencyMs, httpStatus: res.status };
+      }
+      return { status: res.status < 500 ? 'reachable' : 'unreachable', latencyMs, httpStatus: res.status };
     } catch (error) {
-      console.error('[OpenAIClient] Health check error:', error);
-      return false;
+      log.debug('Health check error:', error);
+      return { status: 'unreachable' };
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  /**
+   * GET /v1/models (/api/tags for Ollama) - list the models the server offers, sorted by ID.
+   * Accepts the OpenAI `{ data: [...] }` shape as well as the bare-array and `{ models: [...] }`
+   * variants some compatible servers return. Throws when the endpoint fails or isn't implemented.
+   */
+  async listModels(): Promise<ModelInfo[]> {
+    const url = this.getUrl(this.adapter.modelsPath);
+    log.info('Listing models:', url);
+    const res = await this.transport.request(url, { headers: this.authHeaders() });
+    if (!res.ok) {
+      const text = await res.text().catch(() => '');
+      throw new Error(`List models failed: ${res.status} ${text}`);
     }
+    const json = await res.json();
+    const list: any[] = Array.isArray(json) ? json : json?.data ?? json?.models ?? [];
+    const models = list
+      .map((m) => (typeof m === 'string' ? { id: m } : { id: m?.id ?? m?.name ?? m?.model, ownedBy: m?.owned_by }))
+      .filter((m): m is ModelInfo => typeof m.id === 'string' && m.id.length > 0);
+    log.info('Models available:', models.length);
+    return models.sort((a, b) => a.id.localeCompare(b.id));
   }
 
   /**
    * POST OpenAI-compatible API: /v1/chat/completions
-   * If the server responds with text/event-stream, this will parse SSE chunks and accumulate assistant content.
+   * (or Anthropic /v1/messages, Ollama /api/chat, depending on `provider`)
+   * If the server responds with a stream, this will parse its chunks and accumulate assistant content.
    * You can pass an onToken callback to receive incremental tokens.
+   * When talking to a SpeakMCP server, pass options.conversationId to continue a server-side
+   * conversation; any conversation ID the server returns is reported via options.onConversationId.
+   *
+   * Failures are thrown as typed ApiErrors (see ./errors). Transient ones (network, 5xx, rate
+   * limits) are retried with backoff, but only until the first token or event has arrived so a
+   * retry never duplicates output the caller has already shown.
    */
   async chat(
     messages: ChatMessage[],
-    onToken?: (token: string) => void
+    onToken?: (token: string) => void,
+    options: ChatOptions = {}
   ): Promise<string> {
-    const url = this.getUrl('/chat/completions');
-    const body = { model: this.cfg.model, messages, stream: true } as any;
-
-    console.log('[OpenAIClient] Starting chat request');
-    console.log('[OpenAIClient] URL:', url);
-    console.log('[OpenAIClient] Model:', this.cfg.model);
-    console.log('[OpenAIClient] Messages count:', messages.length);
-    console.log('[OpenAIClient] Headers:', JSON.stringify(this.authHeaders(), null, 2));
-    console.log('[OpenAIClient] Request body:', JSON.stringify(body, null, 2));
-
-    // Test basic connectivity first
-    console.log('[OpenAIClient] Testing basic connectivity...');
-    try {
-      const testResponse = await fetch(url.replace('/chat/completions', '/models'), {
-        method: 'GET',
-        headers: this.authHeaders(),
-      });
-      console.log('[OpenAIClient] Connectivity test result:', testResponse.status, testResponse.statusText);
-    } catch (connectError) {
-      console.error('[OpenAIClient] Connectivity test failed:', connectError);
-    }
-
-    try {
-      const res = await fetch(url, {
-        method: 'POST',
-        headers: this.authHeaders(),
-        body: JSON.stringify(body),
-      });
-
-      console.log('[OpenAIClient] Response status:', res.status, res.statusText);
-      console.log('[OpenAIClient] Response headers:', Object.fromEntries(res.headers.entries()));
+    const maxRetries = options.maxRetries ?? DEFAULT_MAX_RETRIES;
+    let started = false;
+    const markStarted = <T extends any[]>(fn?: (...args: T) => void) =>
+      fn && ((...args: T) => { started = true; fn(...args); });
+    const attemptOptions: ChatOptions = {
+      ...options,
+      onToolCalls: markStarted(options.onToolCalls),
+      onToolResult: markStarted(options.onToolResult),
+      onEvent: markStarted(options.onEvent),
+    };
+    const attemptOnToken = (token: string) => {
+      started = true;
+      onToken?.(token);
+    };
 
-      if (!res.ok) {
-        const text = await res.text().catch(() => '');
-        console.error('[OpenAIClient] Error response body:', text);
-        throw new Error(`Chat failed: ${res.status} ${text}`);
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await this.chatOnce(messages, attemptOnToken, attemptOptions);
+      } catch (error) {
+        const canRetry =
+          error instanceof ApiError &&
+          error.retryable &&
+          !started &&
+          attempt <= maxRetries &&
+          !(error instanceof RateLimitError && (error.retryAfterMs ?? 0) > MAX_AUTO_RETRY_AFTER_MS);
+        if (!canRetry) throw error;
+        const delayMs = retryDelay(error, attempt);
+        log.warn(`Retrying chat (${attempt}/${maxRetries}) in ${delayMs}ms after ${error.kind} error`);
+        options.onRetry?.({ attempt, delayMs, error });
+        await sleep(delayMs, options.signal);
       }
+    }
+  }
 
-      const ct = res.headers.get('content-type') || '';
-      console.log('[OpenAIClient] Content-Type:', ct);
+  /** A single chat request attempt; see chat() */
+  private async chatOnce(
+    messages: ChatMessage[],
+    onToken: (token: string) => void,
+    options: ChatOptions
+  ): Promise<string> {
+    const url = this.getUrl(this.adapter.chatPath);
+    const system = options.systemPrompt?.trim();
+    const withSystem: ChatMessage[] = system && messages[0]?.role !== 'system'
+      ? [{ role: 'system', content: system }, ...messages]
+      : messages;
+    const body = this.adapter.chatBody(withSystem, {
+      model: this.cfg.model,
+      conversationId: options.conversationId,
+      params: options.params,
+    });
 
-      const isSSE = ct.includes('text/event-stream');
-      const supportsReader = !!(res as any)?.body && typeof (res as any).body.getReader === 'function';
+    const { signal } = options;
+    const throwIfAborted = () => {
+      if (signal?.aborted) throw createAbortError();
+    };
+    throwIfAborted();
 
-      console.log('[OpenAIClient] Is SSE:', isSSE);
-      console.log('[OpenAIClient] Supports Reader:', supportsReader);
+    let reportedConversationId = options.conversationId;
+    const reportConversationId = (id: string | undefined) => {
+      if (!id || id === reportedConversationId) return;
+      reportedConversationId = id;
+      log.info('Server conversation ID:', id);
+      options.onConversationId?.(id);
+    };
 
-      // Non-SSE responses: parse JSON content or return raw text
-      if (!isSSE) {
-        console.log('[OpenAIClient] Processing non-SSE response');
-        const text = await res.text();
-        console.log('[OpenAIClient] Response text:', text);
-        try {
-          const j = JSON.parse(text);
-          const content = j?.choices?.[0]?.message?.content ?? '';
-          console.log('[OpenAIClient] Extracted content:', content);
-          return typeof content === 'string' ? content : text;
-        } catch (parseError) {
-          console.error('[OpenAIClient] JSON parse error:', parseError);
-          return text;
-        }
-      }
+    log.info('Starting chat request:', url, 'model:', this.cfg.model, 'messages:', messages.length);
 
-      // SSE but streaming not supported (React Native fetch): fallback to parsing the full text
-      if (isSSE && !supportsReader) {
-        console.log('[OpenAIClient] Using SSE fallback (no reader support)');
-        const text = await res.text();
-        console.log('[OpenAIClient] Raw SSE text length:', text.length);
-        console.log('[OpenAIClient] Raw SSE text preview:', text.substring(0, 500));
-        let finalText = '';
-        const chunks = text.split(/\r?\n\r?\n/);
-        console.log('[OpenAIClient] Split into', chunks.length, 'chunks');
-        for (const chunk of chunks) {
-        const lines = chunk.split(/\r?\n/).map(l => l.replace(/^data:\s?/, '').trim()).filter(Boolean);
-          for (const l of lines) {
-            if (l === '[DONE]' || l === '"[DONE]"') {
-              console.log('[OpenAIClient] Found DONE marker, returning:', finalText.length, 'characters');
-              return finalText;
-            }
-            try {
-              const obj = JSON.parse(l);
-              const delta = obj?.choices?.[0]?.delta;
-              let token = delta?.content as string | undefined;
-              if (!token && obj?.choices?.[0]?.message?.content) {
-                token = obj.choices[0].message.content as string;
-              }
-              if (typeof token === 'string' && token.length > 0) {
-                if (token.trim().startsWith('{')) {
-                  try {
-                    const inner = JSON.parse(token);
-                    if (inner?.type === 'data-operation') {
-                      continue; // ignore control events embedded in content
-                    }
-                  } catch {}
-                }
-                finalText += token;
-                console.log('[OpenAIClient] Token received:', token);
-                onToken?.(token);
-              }
-            } catch (parseError) {
-              console.log('[OpenAIClient] Ignoring non-JSON line:', l);
-            }
-          }
+    let finalText = '';
+    const toolCalls: ToolCall[] = [];
+    // Full (non-delta) tool_calls replace what was assembled so far instead of appending to it
+    const handleToolCallDeltas = (deltas: unknown, complete = false) => {
+      if (!Array.isArray(deltas) || deltas.length === 0) return;
+      if (complete) toolCalls.length = 0;
+      mergeToolCallDeltas(toolCalls, deltas);
+      options.onToolCalls?.(toolCalls.filter(Boolean).map((c) => ({ ...c, function: { ...c.function } })));
+    };
+    // Shared by every SSE path; returns true once the stream signals completion
+    const handleEvent = (ev: SSEEvent): boolean => {
+      if (ev.event === 'error') {
+        throw errorFromStreamPayload(ev.data);
+      }
+      // Named events without completion choices are agent progress rather than assistant text
+      if (ev.event !== 'message') {
+        let payload: any = ev.data;
+        try { payload = JSON.parse(ev.data); } catch {}
+        if (!payload?.choices) {
+          options.onEvent?.(parseAgentEvent(payload, ev.event));
+          return false;
         }
-        console.log('[OpenAIClient] SSE fallback complete, final text length:', finalText.length);
-        return finalText;
       }
-
-      // Streaming parse
-      console.log('[OpenAIClient] Using streaming reader');
-      const decoder = new TextDecoder();
-      const reader = (res.body as ReadableStream<Uint8Array>).getReader();
-      let buffer = '';
-      let finalText = '';
-      while (true) {
-        const { value, done } = await reader.read();
-        if (done) {
-          console.log('[OpenAIClient] Stream ended, final text length:', finalText.length);
-          break;
+      for (const payload of this.splitSSEPayloads(ev.data)) {
+        if (payload === '[DONE]' || payload === '"[DONE]"') {
+          return true;
         }
-        buffer += decoder.decode(value, { stream: true });
-        let idx;
-        while ((idx = buffer.indexOf('\n\n')) !== -1) {
-        const chunk = buffer.slice(0, idx).trim();
-        buffer = buffer.slice(idx + 2);
-        if (!chunk) continue;
-        // Each SSE event line typically starts with "data: "
-        const lines = chunk.split('\n').map(l => l.replace(/^data:\s?/, ''));
-        for (const l of lines) {
-          if (!l) continue;
-            if (l === '[DONE]' || l === '"[DONE]"') {
-              // End of stream
-              console.log('[OpenAIClient] Stream DONE, returning:', finalText.length, 'characters');
-              return finalText;
-            }
+        let obj: any;
+        try {
+          obj = JSON.parse(payload);
+        } catch {
+          log.debug('Ignoring non-JSON SSE data:', payload);
+          continue;
+        }
+        if (obj?.error) {
+          throw errorFromStreamPayload(payload);
+        }
+        reportConversationId(this.extractConversationId(obj));
+        const choice = obj?.choices?.[0];
+        const part = choice?.delta ?? choice?.message;
+        handleToolCallDeltas(part?.tool_calls, !choice?.delta);
+        if (part?.role === 'tool' && part?.tool_call_id) {
+          options.onToolResult?.({ toolCallId: part.tool_call_id, content: String(part.content ?? '') });
+          continue;
+        }
+        let token = choice?.delta?.content as string | undefined;
+        if (!token && typeof choice?.message?.content === 'string') {
+          token = choice.message.content as string;
+        }
+        if (typeof token !== 'string' || token.length === 0) continue;
+        // SpeakMCP embeds JSON-encoded agent events in content; route those to onEvent
+        if (token.trim().startsWith('{')) {
           try {
-            const obj = JSON.parse(l);
-            const delta = obj?.choices?.[0]?.delta;
-            const token = delta?.content;
-            if (typeof token === 'string' && token.length > 0) {
-              // Some streams include JSON-encoded control messages in content; skip those
-              if (token.trim().startsWith('{')) {
-                try {
-                  const inner = JSON.parse(token);
-                  if (inner?.type === 'data-operation') {
-                    continue; // ignore control events
-                  }
-                } catch {}
-              }
-                finalText += token;
-                console.log('[OpenAIClient] Stream token received:', token);
-                onToken?.(token);
-              }
-            } catch (parseError) {
-              console.log('[OpenAIClient] Ignoring non-JSON stream line:', l);
+            const inner = JSON.parse(token);
+            if (isAgentEventPayload(inner)) {
+              options.onEvent?.(parseAgentEvent(inner));
+              continue;
             }
+          } catch {}
         }
+        finalText += token;
+        log.debug('Token received:', token);
+        onToken(token);
       }
-    }
+      return false;
+    };
 
+    // Non-streaming responses carry everything in one JSON body
+    const handleCompletion = (obj: any) => {
+      reportConversationId(this.extractConversationId(obj));
+      handleToolCallDeltas(obj?.choices?.[0]?.message?.tool_calls, true);
+    };
+
+    try {
+      // Other providers' streams arrive here already translated into OpenAI-style chunk events
+      const parser = this.adapter.createDecoder();
+      let isSSE = false;
+      let streamDone = false;
+      const res = await this.transport.stream(url, {
+        method: 'POST',
+        headers: this.authHeaders(),
+        body: JSON.stringify(body),
+        signal,
+        onHeaders: (r) => {
+          log.info('Response status:', r.status, r.statusText);
+          isSSE = r.ok && this.adapter.isStream(r.headers.get('content-type') || '');
+          if (r.ok) reportConversationId(r.headers.get('x-conversation-id') || undefined);
+        },
+        onChunk: (chunk) => {
+          if (!isSSE) return;
+          throwIfAborted();
+          for (const ev of parser.push(chunk)) {
+            if (handleEvent(ev)) {
+              streamDone = true;
+              return true;
+            }
+          }
+        },
+      });
+      throwIfAborted();
+
+      if (!res.ok) {
+        log.error('Error response body:', res.text);
+        throw errorFromResponse(res.status, res.text, res.headers, this.cfg.model);
+      }
+      // Non-SSE responses: parse JSON content or return raw text
+      if (!isSSE) {
+        return this.parseCompletionText(res.text, handleCompletion);
+      }
+      if (!streamDone) {
+        for (const ev of parser.flush()) {
+          if (handleEvent(ev)) break;
+        }
+      }
+      log.info('Stream complete, final text length:', finalText.length);
       return finalText;
     } catch (error) {
-      console.error('[OpenAIClient] Chat request failed:', error);
-      throw error;
+      if (signal?.aborted || isAbortError(error)) {
+        log.info('Chat request cancelled');
+        throw createAbortError();
+      }
+      log.error('Chat request failed:', error);
+      throw toApiError(error);
     }
   }
 
@@ -236,36 +534,39 @@ export class OpenAIClient {
    * Returns success status and number of processes killed
    */
   async killSwitch(): Promise<{ success: boolean; message?: string; error?: string; processesKilled?: number }> {
+    if (this.adapter.id !== 'openai') {
+      return { success: false, error: `Emergency stop isn't available for ${this.adapter.label} servers` };
+    }
     const url = this.getUrl('/emergency-stop');
-    console.log('[OpenAIClient] Triggering emergency stop:', url);
+    log.info('Triggering emergency stop:', url);
 
     try {
-      const res = await fetch(url, {
+      const res = await this.transport.request(url, {
         method: 'POST',
         headers: this.authHeaders(),
         body: JSON.stringify({}), // Fastify requires a body when Content-Type is application/json
       });
 
-      console.log('[OpenAIClient] Kill switch response:', res.status, res.statusText);
+      log.info('Kill switch response:', res.status, res.statusText);
 
       const data = await res.json().catch(() => ({}));
 
       if (!res.ok) {
-        console.error('[OpenAIClient] Kill switch error:', data);
+        log.error('Kill switch error:', data);
         return {
           success: false,
           error: data?.error || `Kill switch failed: ${res.status}`,
         };
       }
 
-      console.log('[OpenAIClient] Kill switch success:', data);
+      log.info('Kill switch success:', data);
       return {
         success: true,
         message: data?.message || 'Emergency stop executed',
         processesKilled: data?.processesKilled,
       };
     } catch (error: any) {
-      console.error('[OpenAIClient] Kill switch request failed:', error);
+      log.error('Kill switch request failed:', error);
       return {
         success: false,
         error: error?.message || 'Failed to connect to server',
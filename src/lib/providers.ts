@@ -0,0 +1,345 @@
+/**
+ * Provider adapters for OpenAIClient
+ *
+ * Each adapter knows one API's paths, auth headers, request body and stream format. Streams
+ * from other providers are translated into OpenAI chat.completion.chunk events so the client's
+ * stream handling (tokens, tool calls, completion) is the same whichever provider is in use.
+ */
+import { SSEEvent, SSEParser } from './sse';
+import { AuthConfig } from './auth';
+import type { ChatMessage, ContentPart, GenerationParams } from './openaiClient';
+import { contentText } from './chatHistory';
+
+export type ProviderId = 'openai' | 'azure' | 'anthropic' | 'ollama';
+
+export const AZURE_DEFAULT_API_VERSION = '2024-10-21';
+
+/** Turns raw body text into (OpenAI-shaped) SSE events as it arrives */
+export interface StreamDecoder {
+  push(chunk: string): SSEEvent[];
+  flush(): SSEEvent[];
+}
+
+export type ChatBodyOptions = {
+  model?: string;
+  conversationId?: string;
+  params?: GenerationParams;
+};
+
+/** Connection settings that shape request URLs for some providers */
+export type UrlOptions = {
+  azureDeployment?: string;
+  azureApiVersion?: string;
+};
+
+export interface ProviderAdapter {
+  id: ProviderId;
+  label: string;
+  /** Suggested base URL for new profiles */
+  defaultBaseUrl: string;
+  chatPath: string;
+  /** Lists models; also used for health checks */
+  modelsPath: string;
+  /** Rewrite an endpoint path, e.g. into Azure's deployment-scoped form */
+  resolvePath?(path: string, opts: UrlOptions): string;
+  /** Query parameters every request needs, e.g. Azure's api-version */
+  query?(opts: UrlOptions): Record<string, string>;
+  /** How the API key is sent unless the profile overrides it */
+  defaultAuth: AuthConfig;
+  /** The server works without an API key (a key is still sent when one is set) */
+  keyOptional?: boolean;
+  /** Non-auth headers sent with every request */
+  headers(): Record<string, string>;
+  chatBody(messages: ChatMessage[], opts: ChatBodyOptions): Record<string, unknown>;
+  /** Whether a response with this content type is a stream the decoder understands */
+  isStream(contentType: string): boolean;
+  createDecoder(): StreamDecoder;
+  /** Reshape a non-streaming response body into an OpenAI chat completion */
+  normalizeCompletion(obj: any): any;
+}
+
+/** An SSE event carrying an OpenAI-style chunk, as the client expects */
+function chunkEvent(delta: Record<string, unknown>, extra: Record<string, unknown> = {}): SSEEvent {
+  return { event: 'message', data: JSON.stringify({ ...extra, choices: [{ index: 0, delta }] }) };
+}
+
+const DONE_EVENT: SSEEvent = { event: 'message', data: '[DONE]' };
+
+/** Drop unset entries so the server's defaults apply */
+function defined(obj: Record<string, unknown>): Record<string, unknown> {
+  return Object.fromEntries(Object.entries(obj).filter(([, v]) => v !== undefined));
+}
+
+/** Sampling parameters in OpenAI's chat completions naming */
+function openaiParams(params: GenerationParams = {}): Record<string, unknown> {
+  return defined({
+    temperature: params.temperature,
+    max_tokens: params.maxTokens,
+    top_p: params.topP,
+    stop: params.stop?.length ? params.stop : undefined,
+  });
+}
+
+/** Split a data URL into its media type and base64 payload */
+function parseDataUrl(url: string): { mediaType: string; data: string } | null {
+  const match = /^data:([^;,]+);base64,(.*)$/.exec(url);
+  return match ? { mediaType: match[1], data: match[2] } : null;
+}
+
+function imageParts(content: ChatMessage['content']): Extract<ContentPart, { type: 'image_url' }>[] {
+  return Array.isArray(content) ? content.filter((p): p is Extract<ContentPart, { type: 'image_url' }> => p.type === 'image_url') : [];
+}
+
+function parseArguments(raw: string): unknown {
+  try {
+    return JSON.parse(raw || '{}');
+  } catch {
+    return {};
+  }
+}
+
+export const openaiAdapter: ProviderAdapter = {
+  id: 'openai',
+  label: 'OpenAI-compatible',
+  defaultBaseUrl: 'https://api.openai.com/v1',
+  chatPath: '/chat/completions',
+  modelsPath: '/models',
+  defaultAuth: { scheme: 'bearer' },
+  headers: () => ({ 'Content-Type': 'application/json' }),
+  chatBody: (messages, { model, conversationId, params }) => ({
+    model,
+    messages,
+    stream: true,
+    ...openaiParams(params),
+    // SpeakMCP servers continue a server-side conversation when given its ID
+    ...(conversationId ? { conversation_id: conversationId } : {}),
+  }),
+  isStream: (ct) => ct.includes('text/event-stream'),
+  createDecoder: () => new SSEParser(),
+  normalizeCompletion: (obj) => obj,
+};
+
+/**
+ * Azure OpenAI: OpenAI request and stream format, but deployment-scoped paths under /openai,
+ * an `api-version` query parameter and an `api-key` header.
+ */
+export const azureAdapter: ProviderAdapter = {
+  ...openaiAdapter,
+  id: 'azure',
+  label: 'Azure OpenAI',
+  defaultBaseUrl: 'https://YOUR-RESOURCE.openai.azure.com',
+  defaultAuth: { scheme: 'header', headerName: 'api-key' },
+  resolvePath: (path, { azureDeployment }) =>
+    path === '/models' || !azureDeployment
+      ? `/openai${path}`
+      : `/openai/deployments/${encodeURIComponent(azureDeployment)}${path}`,
+  query: ({ azureApiVersion }) => ({ 'api-version': azureApiVersion?.trim() || AZURE_DEFAULT_API_VERSION }),
+  // The deployment picks the model and there is no SpeakMCP conversation to continue
+  chatBody: (messages, { params }) => ({ messages, stream: true, ...openaiParams(params) }),
+};
+
+/**
+ * Anthropic Messages API. System messages become the top-level `system` prompt, tool calls
+ * and results become tool_use / tool_result content blocks.
+ */
+export const anthropicAdapter: ProviderAdapter = {
+  id: 'anthropic',
+  label: 'Anthropic',
+  defaultBaseUrl: 'https://api.anthropic.com/v1',
+  chatPath: '/messages',
+  modelsPath: '/models',
+  defaultAuth: { scheme: 'header', headerName: 'x-api-key' },
+  headers: () => ({
+    'anthropic-version': '2023-06-01',
+    'Content-Type': 'application/json',
+  }),
+  chatBody: (messages, { model, params = {} }) => {
+    const system = messages
+      .filter((m) => m.role === 'system' && m.content)
+      .map((m) => contentText(m.content))
+      .join('\n\n');
+    const out: { role: 'user' | 'assistant'; content: any[] }[] = [];
+    const append = (role: 'user' | 'assistant', blocks: any[]) => {
+      if (blocks.length === 0) return;
+      const last = out[out.length - 1];
+      // The API wants alternating turns, so consecutive same-role messages are merged
+      if (last?.role === role) last.content.push(...blocks);
+      else out.push({ role, content: blocks });
+    };
+    for (const m of messages) {
+      if (m.role === 'system') continue;
+      if (m.role === 'tool') {
+        append('user', [{ type: 'tool_result', tool_use_id: m.tool_call_id, content: contentText(m.content) }]);
+        continue;
+      }
+      const text = contentText(m.content);
+      const blocks: any[] = text ? [{ type: 'text', text }] : [];
+      for (const part of imageParts(m.content)) {
+        const image = parseDataUrl(part.image_url.url);
+        blocks.push(image
+          ? { type: 'image', source: { type: 'base64', media_type: image.mediaType, data: image.data } }
+          : { type: 'image', source: { type: 'url', url: part.image_url.url } });
+      }
+      for (const call of m.tool_calls ?? []) {
+        blocks.push({ type: 'tool_use', id: call.id, name: call.function.name, input: parseArguments(call.function.arguments) });
+      }
+      append(m.role, blocks);
+    }
+    return {
+      model,
+      // Required by the Messages API
+      max_tokens: params.maxTokens ?? 4096,
+      stream: true,
+      messages: out,
+      ...(system ? { system } : {}),
+      ...defined({
+        temperature: params.temperature,
+        top_p: params.topP,
+        stop_sequences: params.stop?.length ? params.stop : undefined,
+      }),
+    };
+  },
+  isStream: (ct) => ct.includes('text/event-stream'),
+  createDecoder: () => {
+    const parser = new SSEParser();
+    // Content block index -> position among the message's tool calls
+    const toolIndex = new Map<number, number>();
+    const translate = (ev: SSEEvent): SSEEvent[] => {
+      let obj: any;
+      try {
+        obj = JSON.parse(ev.data);
+      } catch {
+        return [];
+      }
+      switch (obj?.type ?? ev.event) {
+        case 'content_block_start': {
+          const block = obj.content_block;
+          if (block?.type !== 'tool_use') return [];
+          const index = toolIndex.size;
+          toolIndex.set(obj.index, index);
+          return [chunkEvent({ tool_calls: [{ index, id: block.id, type: 'function', function: { name: block.name, arguments: '' } }] })];
+        }
+        case 'content_block_delta': {
+          const delta = obj.delta;
+          if (delta?.type === 'text_delta') return [chunkEvent({ content: delta.text })];
+          if (delta?.type === 'input_json_delta' && toolIndex.has(obj.index)) {
+            return [chunkEvent({ tool_calls: [{ index: toolIndex.get(obj.index), function: { arguments: delta.partial_json } }] })];
+          }
+          return [];
+        }
+        case 'message_stop':
+          return [DONE_EVENT];
+        case 'error':
+          return [{ event: 'error', data: ev.data }];
+        default:
+          // message_start, message_delta, content_block_stop, ping
+          return [];
+      }
+    };
+    return {
+      push: (chunk) => parser.push(chunk).flatMap(translate),
+      flush: () => parser.flush().flatMap(translate),
+    };
+  },
+  normalizeCompletion: (obj) => {
+    const blocks: any[] = Array.isArray(obj?.content) ? obj.content : [];
+    const content = blocks.filter((b) => b?.type === 'text').map((b) => b.text).join('');
+    const toolCalls = blocks
+      .filter((b) => b?.type === 'tool_use')
+      .map((b) => ({ id: b.id, type: 'function', function: { name: b.name, arguments: JSON.stringify(b.input ?? {}) } }));
+    return { choices: [{ message: { role: 'assistant', content, ...(toolCalls.length ? { tool_calls: toolCalls } : {}) } }] };
+  },
+};
+
+/** Ollama's native /api/chat, which streams newline-delimited JSON */
+export const ollamaAdapter: ProviderAdapter = {
+  id: 'ollama',
+  label: 'Ollama',
+  defaultBaseUrl: 'http://localhost:11434',
+  chatPath: '/api/chat',
+  modelsPath: '/api/tags',
+  // Plain Ollama ignores auth, but it is often put behind an authenticating proxy
+  defaultAuth: { scheme: 'bearer' },
+  keyOptional: true,
+  headers: () => ({ 'Content-Type': 'application/json' }),
+  chatBody: (messages, { model, params = {} }) => {
+    const options = defined({
+      temperature: params.temperature,
+      num_predict: params.maxTokens,
+      top_p: params.topP,
+      stop: params.stop?.length ? params.stop : undefined,
+    });
+    return {
+      model,
+      stream: true,
+      ...(Object.keys(options).length ? { options } : {}),
+      messages: messages.map((m) => ({
+        role: m.role,
+        content: contentText(m.content),
+        // Ollama takes images as bare base64 next to the text
+        ...(imageParts(m.content).length
+          ? { images: imageParts(m.content).map((p) => parseDataUrl(p.image_url.url)?.data).filter(Boolean) }
+          : {}),
+        ...(m.tool_calls?.length
+          ? { tool_calls: m.tool_calls.map((c) => ({ function: { name: c.function.name, arguments: parseArguments(c.function.arguments) } })) }
+          : {}),
+      })),
+    };
+  },
+  isStream: (ct) => ct.includes('application/x-ndjson') || ct.includes('application/json'),
+  createDecoder: () => {
+    let buffer = '';
+    let toolCount = 0;
+    const translate = (line: string): SSEEvent[] => {
+      if (!line.trim()) return [];
+      let obj: any;
+      try {
+        obj = JSON.parse(line);
+      } catch {
+        return [];
+      }
+      if (obj?.error) return [{ event: 'error', data: line }];
+      const events: SSEEvent[] = [];
+      const message = obj?.message ?? {};
+      if (Array.isArray(message.tool_calls) && message.tool_calls.length > 0) {
+        // Ollama sends each tool call whole, so give every one its own index
+        const tool_calls = message.tool_calls.map((c: any) => ({
+          index: toolCount++,
+          id: c.id ?? `call_${toolCount}`,
+          type: 'function',
+          function: { name: c.function?.name ?? '', arguments: c.function?.arguments ?? {} },
+        }));
+        events.push(chunkEvent({ tool_calls }));
+      }
+      if (typeof message.content === 'string' && message.content) {
+        events.push(chunkEvent({ content: message.content }));
+      }
+      if (obj?.done) events.push(DONE_EVENT);
+      return events;
+    };
+    const drain = (final: boolean) => {
+      const lines = buffer.split('\n');
+      buffer = final ? '' : lines.pop() ?? '';
+      return lines.flatMap(translate);
+    };
+    return {
+      push: (chunk) => {
+        buffer += chunk;
+        return drain(false);
+      },
+      flush: () => drain(true),
+    };
+  },
+  normalizeCompletion: (obj) => (obj?.message ? { choices: [{ message: obj.message }] } : obj),
+};
+
+export const PROVIDERS: Record<ProviderId, ProviderAdapter> = {
+  openai: openaiAdapter,
+  azure: azureAdapter,
+  anthropic: anthropicAdapter,
+  ollama: ollamaAdapter,
+};
+
+export function getProvider(id?: ProviderId): ProviderAdapter {
+  return (id && PROVIDERS[id]) || openaiAdapter;
+}
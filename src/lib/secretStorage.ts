@@ -0,0 +1,69 @@
+/**
+ * Secret storage for API keys and other credentials
+ *
+ * Native builds use expo-secure-store (iOS Keychain / Android Keystore-backed encryption).
+ * Browsers have no equivalent, so on web secrets fall back to AsyncStorage, i.e. plain
+ * localStorage; getSecretStorageInfo() reports this so the UI can say so.
+ */
+import { Platform } from 'react-native';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as SecureStore from 'expo-secure-store';
+
+export type SecretStorageInfo = {
+  /** Short label for where secrets live, e.g. "iOS Keychain" */
+  label: string;
+  /** Whether the backend encrypts secrets at rest */
+  secure: boolean;
+  description: string;
+};
+
+const WEB_PREFIX = 'secret_';
+
+const isWeb = Platform.OS === 'web';
+
+export function getSecretStorageInfo(): SecretStorageInfo {
+  if (Platform.OS === 'ios') {
+    return { label: 'iOS Keychain', secure: true, description: 'Encrypted by the system Keychain on this device.' };
+  }
+  if (Platform.OS === 'android') {
+    return { label: 'Android Keystore', secure: true, description: 'Encrypted with a key held in the Android Keystore.' };
+  }
+  return {
+    label: 'Browser local storage',
+    secure: false,
+    description: 'Not encrypted. Anyone with access to this browser profile can read it.',
+  };
+}
+
+/** SecureStore only accepts alphanumerics, ".", "-" and "_" in keys */
+function normalizeKey(key: string): string {
+  return key.replace(/[^A-Za-z0-9._-]/g, '_');
+}
+
+export async function getSecret(key: string): Promise<string | null> {
+  const k = normalizeKey(key);
+  if (isWeb) return AsyncStorage.getItem(WEB_PREFIX + k);
+  return SecureStore.getItemAsync(k);
+}
+
+export async function setSecret(key: string, value: string) {
+  const k = normalizeKey(key);
+  if (!value) {
+    await deleteSecret(key);
+    return;
+  }
+  if (isWeb) {
+    await AsyncStorage.setItem(WEB_PREFIX + k, value);
+    return;
+  }
+  await SecureStore.setItemAsync(k, value);
+}
+
+export async function deleteSecret(key: string) {
+  const k = normalizeKey(key);
+  if (isWeb) {
+    await AsyncStorage.removeItem(WEB_PREFIX + k);
+    return;
+  }
+  await SecureStore.deleteItemAsync(k);
+}
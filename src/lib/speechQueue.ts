@@ -0,0 +1,339 @@
+/**
+ * Sentence-by-sentence text-to-speech for streamed responses
+ *
+ * SentenceSplitter turns streamed tokens into speakable sentences as soon as each one is
+ * complete, without breaking on abbreviations ("e.g.", "Dr."), decimals, initials or numbered
+ * list markers, and without reading code blocks aloud. SpeechQueue speaks those sentences one
+ * after another through expo-speech, with pause, resume, skip and stop.
+ */
+import { useEffect, useRef, useState } from 'react';
+import { Platform } from 'react-native';
+import * as Speech from 'expo-speech';
+import { createLogger } from './logger';
+import { deviceLanguage } from './voices';
+
+const log = createLogger('voice');
+
+const ABBREVIATIONS = new Set([
+  'mr', 'mrs', 'ms', 'dr', 'prof', 'sr', 'jr', 'st', 'vs', 'etc', 'e.g', 'i.e', 'eg', 'ie',
+  'no', 'approx', 'inc', 'ltd', 'co', 'corp', 'fig', 'dept', 'est', 'vol', 'cf', 'u.s', 'a.m', 'p.m',
+]);
+const TERMINATORS = '.!?…';
+// Closing quotes and brackets that belong to the sentence they follow
+const CLOSERS = '"\'”’)]';
+const FENCE = '```';
+// Long run-on text is cut at a space so speech doesn't wait for the whole paragraph
+const MAX_SENTENCE_CHARS = 300;
+const CODE_PLACEHOLDER = 'Code block omitted.';
+
+/** Strip markdown that would otherwise be read out literally */
+export function cleanForSpeech(text: string): string {
+  return text
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1') // links -> their text
+    .replace(/https?:\/\/\S+/g, 'link')
+    .replace(/`([^`]*)`/g, '$1')
+    .replace(/^\s{0,3}#{1,6}\s+/, '') // headings
+    .replace(/^\s*[-*+]\s+/, '') // bullets
+    .replace(/(\*\*|__|\*|_)(?=\S)([^*_]*?\S)\1/g, '$2') // bold / italics
+    .replace(/\s*\|\s*/g, ', ') // table cells
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+// Anything other than whitespace and punctuation is worth speaking
+const SPEAKABLE = /[^\s.,;:!?…'"“”‘’()[\]{}\-–—*_#`|/\\]/;
+
+/** Whether the "." at `dot` ends an abbreviation, an initial or a list marker rather than a sentence */
+function isFalseBoundary(text: string, dot: number): boolean {
+  if (text[dot] !== '.') return false;
+  const before = text.slice(0, dot);
+  const word = (/(\S+)$/.exec(before)?.[1] ?? '').replace(/^[("'“‘[]+/, '');
+  if (!word) return false;
+  if (ABBREVIATIONS.has(word.toLowerCase())) return true;
+  // Initials such as "J. R. R. Tolkien"
+  if (word.length === 1 && word !== word.toLowerCase()) return true;
+  // "1. First item" at the start of a line
+  if (/^\d+$/.test(word)) {
+    const lineStart = before.lastIndexOf('\n') + 1;
+    return before.slice(lineStart).trim() === word;
+  }
+  return false;
+}
+
+/** Splits streamed text into sentences ready to speak */
+export class SentenceSplitter {
+  private buffer = '';
+  private inFence = false;
+
+  /** Add streamed text; returns the sentences it completed */
+  push(text: string): string[] {
+    this.buffer += text;
+    return this.drain(false);
+  }
+
+  /** The stream ended: return whatever is left as a final sentence */
+  flush(): string[] {
+    const out = this.drain(true);
+    this.buffer = '';
+    this.inFence = false;
+    return out;
+  }
+
+  private drain(final: boolean): string[] {
+    const out: string[] = [];
+    const emit = (raw: string) => {
+      const sentence = cleanForSpeech(raw);
+      if (SPEAKABLE.test(sentence)) out.push(sentence);
+    };
+
+    while (this.buffer) {
+      if (this.inFence) {
+        const close = this.buffer.indexOf(FENCE);
+        if (close < 0) {
+          // Keep a possible partial closing fence; the rest of the code is never spoken
+          this.buffer = final ? '' : this.buffer.slice(-2);
+          break;
+        }
+        this.buffer = this.buffer.slice(close + FENCE.length).replace(/^[^\n]*\n?/, '');
+        this.inFence = false;
+        continue;
+      }
+
+      const fence = this.buffer.indexOf(FENCE);
+      // Text before an opening fence is its own sentence; a trailing "`" or "``" may become one
+      const proseEnd = fence >= 0 ? fence : final ? this.buffer.length : this.buffer.length - (/`{1,2}$/.exec(this.buffer)?.[0].length ?? 0);
+      const boundary = this.findBoundary(this.buffer.slice(0, proseEnd), final || fence >= 0);
+      if (boundary > 0) {
+        emit(this.buffer.slice(0, boundary));
+        this.buffer = this.buffer.slice(boundary);
+        continue;
+      }
+      if (fence >= 0) {
+        emit(this.buffer.slice(0, fence));
+        out.push(CODE_PLACEHOLDER);
+        this.buffer = this.buffer.slice(fence + FENCE.length);
+        this.inFence = true;
+        continue;
+      }
+      if (final) {
+        emit(this.buffer);
+        this.buffer = '';
+      }
+      break;
+    }
+    return out;
+  }
+
+  /**
+   * Index just past the first complete sentence in `text`, or 0 if there isn't one yet.
+   * When `complete` is false the text may continue, so a terminator at the very end waits
+   * for the next character before it counts.
+   */
+  private findBoundary(text: string, complete: boolean): number {
+    for (let i = 0; i < text.length; i++) {
+      const ch = text[i];
+      if (ch === '\n') {
+        if (text.slice(0, i).trim()) return i + 1;
+        continue;
+      }
+      if (!TERMINATORS.includes(ch)) {
+        if (i >= MAX_SENTENCE_CHARS) {
+          const space = text.lastIndexOf(' ', i);
+          if (space > 0) return space + 1;
+        }
+        continue;
+      }
+      let end = i + 1;
+      while (end < text.length && (TERMINATORS.includes(text[end]) || CLOSERS.includes(text[end]))) end++;
+      if (end >= text.length) return complete ? end : 0;
+      if (/\s/.test(text[end]) && !isFalseBoundary(text, i)) return end;
+      i = end - 1;
+    }
+    return 0;
+  }
+}
+
+export type SpeechState = {
+  /** A sentence is playing (or paused mid-sentence) */
+  speaking: boolean;
+  paused: boolean;
+  /** Sentences waiting after the current one */
+  pending: number;
+};
+
+export type SpeechQueueOptions = {
+  language?: string;
+  voice?: string;
+  rate?: number;
+  pitch?: number;
+  /** Language and voice for a particular sentence, e.g. to read a reply in its own language */
+  languageFor?: (sentence: string) => { language: string; voice?: string } | null;
+};
+
+export class SpeechQueue {
+  private splitter = new SentenceSplitter();
+  private queue: string[] = [];
+  private current: string | null = null;
+  private last: string | null = null;
+  private paused = false;
+  // Set by interrupt(): the rest of the response being streamed is not spoken
+  private muted = false;
+  // Bumped whenever playback is interrupted so callbacks of the old utterance are ignored
+  private utteranceId = 0;
+  private options: SpeechQueueOptions = { language: deviceLanguage() };
+  private listeners = new Set<(state: SpeechState) => void>();
+
+  /** Voice settings for sentences spoken from now on */
+  configure(options: SpeechQueueOptions) {
+    this.options = { ...this.options, ...options };
+  }
+
+  /** Feed streamed response text; each sentence starts playing as soon as it is complete */
+  push(text: string) {
+    if (this.muted) return;
+    this.enqueue(this.splitter.push(text));
+  }
+
+  /** The response finished: speak what is left of it */
+  end() {
+    const rest = this.splitter.flush();
+    if (this.muted) this.muted = false;
+    else this.enqueue(rest);
+  }
+
+  /** Queue a complete text, e.g. a status message or a repeated answer */
+  say(text: string) {
+    const splitter = new SentenceSplitter();
+    this.enqueue([...splitter.push(text), ...splitter.flush()]);
+  }
+
+  pause() {
+    if (!this.current || this.paused) return;
+    this.paused = true;
+    if (Platform.OS === 'android') {
+      // Android can't pause an utterance, so stop it and start the sentence over on resume
+      this.utteranceId++;
+      Speech.stop();
+    } else {
+      Speech.pause();
+    }
+    this.emit();
+  }
+
+  resume() {
+    if (!this.paused) return;
+    this.paused = false;
+    if (Platform.OS === 'android') this.speakCurrent();
+    else Speech.resume();
+    this.emit();
+  }
+
+  /** Drop the current sentence and go on with the next one */
+  skip() {
+    if (!this.current) return;
+    this.utteranceId++;
+    Speech.stop();
+    this.paused = false;
+    this.next();
+  }
+
+  /** Stop speaking and forget everything queued, including a half-received sentence */
+  stop() {
+    const wasActive = !!this.current || this.queue.length > 0;
+    this.queue = [];
+    this.current = null;
+    this.paused = false;
+    this.muted = false;
+    this.splitter = new SentenceSplitter();
+    this.utteranceId++;
+    Speech.stop();
+    if (wasActive) this.emit();
+  }
+
+  /** Stop speaking and stay quiet for the rest of the response that is still streaming in */
+  interrupt() {
+    this.stop();
+    this.muted = true;
+  }
+
+  /** The sentence spoken most recently, for "repeat that" */
+  get lastSpoken(): string | null {
+    return this.last;
+  }
+
+  getState(): SpeechState {
+    return { speaking: !!this.current, paused: this.paused, pending: this.queue.length };
+  }
+
+  subscribe(listener: (state: SpeechState) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private enqueue(sentences: string[]) {
+    if (sentences.length === 0) return;
+    this.queue.push(...sentences);
+    if (!this.current && !this.paused) this.next();
+    else this.emit();
+  }
+
+  private next() {
+    this.current = this.queue.shift() ?? null;
+    if (this.current) {
+      this.last = this.current;
+      this.speakCurrent();
+    }
+    this.emit();
+  }
+
+  private speakCurrent() {
+    if (!this.current) return;
+    const id = ++this.utteranceId;
+    const done = () => {
+      if (id !== this.utteranceId || this.paused) return;
+      this.next();
+    };
+    const { languageFor, ...options } = this.options;
+    const override = languageFor?.(this.current);
+    if (override) {
+      // An explicit voice wins over `language`, so the configured one must not read another
+      // language; without a voice of its own the sentence gets the system voice for it
+      delete options.voice;
+      options.language = override.language;
+      if (override.voice) options.voice = override.voice;
+    }
+    Speech.speak(this.current, {
+      ...options,
+      onDone: done,
+      onError: (e) => {
+        log.warn('TTS error:', e?.message || e);
+        done();
+      },
+    });
+  }
+
+  private emit() {
+    const state = this.getState();
+    this.listeners.forEach((l) => l(state));
+  }
+}
+
+/** A SpeechQueue owned by a component, with its state for rendering playback controls */
+export function useSpeechQueue() {
+  const queueRef = useRef<SpeechQueue | null>(null);
+  if (!queueRef.current) queueRef.current = new SpeechQueue();
+  const queue = queueRef.current;
+  const [state, setState] = useState<SpeechState>(queue.getState());
+
+  useEffect(() => {
+    const unsubscribe = queue.subscribe(setState);
+    return () => {
+      unsubscribe();
+      queue.stop();
+    };
+  }, [queue]);
+
+  return { queue, ...state } as const;
+}
@@ -0,0 +1,108 @@
+/**
+ * Incremental Server-Sent Events parser
+ *
+ * Follows the WHATWG event-stream rules: CR, LF and CRLF line endings, `:` comment lines,
+ * `event:`/`data:`/`id:`/`retry:` fields and multi-line `data:` payloads joined with "\n".
+ * Feed it text as it arrives with push(); call flush() once the stream has ended.
+ */
+
+export type SSEEvent = {
+  /** Event type from the `event:` field, "message" when none was given */
+  event: string;
+  /** All `data:` lines of the event joined with "\n" */
+  data: string;
+  /** Last event ID seen on the stream (persists across events, as per the spec) */
+  id?: string;
+  /** Reconnection time in milliseconds from a `retry:` field */
+  retry?: number;
+};
+
+export class SSEParser {
+  private buffer = '';
+  private eventType = '';
+  private dataLines: string[] = [];
+  private hasData = false;
+  private lastEventId: string | undefined;
+  private retry: number | undefined;
+
+  /** Parse a chunk of stream text and return any events it completed */
+  push(chunk: string): SSEEvent[] {
+    this.buffer += chunk;
+    const events: SSEEvent[] = [];
+
+    let start = 0;
+    for (let i = 0; i < this.buffer.length; i++) {
+      const ch = this.buffer[i];
+      if (ch !== '\n' && ch !== '\r') continue;
+      // A CR at the very end may be the first half of a CRLF split across chunks
+      if (ch === '\r' && i === this.buffer.length - 1) break;
+      this.processLine(this.buffer.slice(start, i), events);
+      if (ch === '\r' && this.buffer[i + 1] === '\n') i++;
+      start = i + 1;
+    }
+    this.buffer = this.buffer.slice(start);
+    return events;
+  }
+
+  /** Dispatch whatever is left once the stream ends, even without a trailing blank line */
+  flush(): SSEEvent[] {
+    const events: SSEEvent[] = [];
+    const rest = this.buffer.replace(/\r$/, '');
+    this.buffer = '';
+    if (rest) this.processLine(rest, events);
+    this.dispatch(events);
+    return events;
+  }
+
+  private processLine(line: string, events: SSEEvent[]) {
+    if (line === '') {
+      this.dispatch(events);
+      return;
+    }
+    if (line.startsWith(':')) return; // comment / keep-alive
+
+    const colon = line.indexOf(':');
+    const field = colon === -1 ? line : line.slice(0, colon);
+    let value = colon === -1 ? '' : line.slice(colon + 1);
+    if (value.startsWith(' ')) value = value.slice(1);
+
+    switch (field) {
+      case 'event':
+        this.eventType = value;
+        break;
+      case 'data':
+        this.dataLines.push(value);
+        this.hasData = true;
+        break;
+      case 'id':
+        if (!value.includes('\0')) this.lastEventId = value;
+        break;
+      case 'retry':
+        if (/^\d+$/.test(value)) this.retry = parseInt(value, 10);
+        break;
+      default:
+        // Unknown fields are ignored
+        break;
+    }
+  }
+
+  private dispatch(events: SSEEvent[]) {
+    if (this.hasData) {
+      events.push({
+        event: this.eventType || 'message',
+        data: this.dataLines.join('\n'),
+        ...(this.lastEventId !== undefined && { id: this.lastEventId }),
+        ...(this.retry !== undefined && { retry: this.retry }),
+      });
+    }
+    this.eventType = '';
+    this.dataLines = [];
+    this.hasData = false;
+  }
+}
+
+/** Parse a complete event-stream body in one go */
+export function parseSSE(text: string): SSEEvent[] {
+  const parser = new SSEParser();
+  return [...parser.push(text), ...parser.flush()];
+}
@@ -0,0 +1,114 @@
+/**
+ * HTTP transport used by OpenAIClient
+ *
+ * The client never calls fetch or XMLHttpRequest itself; it goes through a Transport so
+ * tests (and the in-memory fake server in test/fakeServer.ts) can stand in for the network.
+ * `request` is a plain fetch-style call, `stream` hands the body to onChunk as it arrives.
+ */
+import { createContext, useContext } from 'react';
+import { Platform } from 'react-native';
+import { XHRStreamInit, XHRStreamResponse, streamXHR } from './xhrStream';
+
+export type TransportRequestInit = {
+  method?: string;
+  headers?: Record<string, string>;
+  body?: string;
+  signal?: AbortSignal;
+};
+
+export type TransportResponse = {
+  ok: boolean;
+  status: number;
+  statusText: string;
+  headers: { get(name: string): string | null };
+  text(): Promise<string>;
+  json(): Promise<any>;
+};
+
+export type StreamInit = XHRStreamInit;
+export type StreamResponse = XHRStreamResponse;
+
+export interface Transport {
+  request(url: string, init?: TransportRequestInit): Promise<TransportResponse>;
+  /**
+   * Send a request and pass each new slice of the body to onChunk (return true to stop early).
+   * Resolves with the full body text; rejects with a TypeError on network failure and an
+   * AbortError when the signal fires.
+   */
+  stream(url: string, init?: StreamInit): Promise<StreamResponse & { text: string }>;
+}
+
+/** fetch for everything; streams through body.getReader() where the runtime supports it */
+export const fetchTransport: Transport = {
+  request: (url, init) => fetch(url, init),
+
+  async stream(url, init = {}) {
+    const { onHeaders, onChunk, ...request } = init;
+    const res = await fetch(url, request);
+    const response: StreamResponse = {
+      ok: res.ok,
+      status: res.status,
+      statusText: res.statusText,
+      headers: res.headers,
+    };
+    onHeaders?.(response);
+
+    const body = (res as any)?.body;
+    if (!res.ok || !body || typeof body.getReader !== 'function') {
+      // No streaming support (e.g. React Native fetch): deliver the whole body as one chunk
+      const text = await res.text();
+      if (res.ok) onChunk?.(text, response);
+      return { ...response, text };
+    }
+
+    const decoder = new TextDecoder();
+    const reader = (body as ReadableStream<Uint8Array>).getReader();
+    // Not every fetch implementation tears down the body stream on abort, so cancel it ourselves
+    const onAbort = () => { reader.cancel().catch(() => {}); };
+    init.signal?.addEventListener('abort', onAbort);
+    let text = '';
+    try {
+      while (true) {
+        const { value, done } = await reader.read();
+        if (init.signal?.aborted) {
+          const err = new Error('Request aborted');
+          err.name = 'AbortError';
+          throw err;
+        }
+        const chunk = done ? decoder.decode() : decoder.decode(value, { stream: true });
+        if (chunk) {
+          text += chunk;
+          if (onChunk?.(chunk, response) === true) {
+            reader.cancel().catch(() => {});
+            break;
+          }
+        }
+        if (done) break;
+      }
+    } catch (error) {
+      // onChunk may throw (e.g. on an SSE error event); don't leave the connection open
+      reader.cancel().catch(() => {});
+      throw error;
+    } finally {
+      init.signal?.removeEventListener('abort', onAbort);
+    }
+    return { ...response, text };
+  },
+};
+
+/** fetch for plain requests, XHR progress events for streaming (React Native) */
+export const xhrTransport: Transport = {
+  request: fetchTransport.request,
+  stream: (url, init) => streamXHR(url, init),
+};
+
+/** XHR streaming on native, where fetch can't expose the body as a stream; fetch elsewhere */
+export function defaultTransport(): Transport {
+  return Platform.OS !== 'web' && typeof XMLHttpRequest !== 'undefined' ? xhrTransport : fetchTransport;
+}
+
+/** Lets tests render screens against a fake transport; screens fall back to the platform default */
+export const TransportContext = createContext<Transport | null>(null);
+export function useTransport(): Transport {
+  return useContext(TransportContext) ?? defaultTransport();
+}
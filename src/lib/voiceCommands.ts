@@ -0,0 +1,155 @@
+/**
+ * Voice commands for hands-free control
+ *
+ * Final transcripts are checked against this grammar before they are sent. An utterance that
+ * is a command as a whole ("stop", "new chat", "switch model to gpt 4o", give or take a
+ * "please") is handled by the app and never reaches the model; anything longer is an ordinary
+ * message. The phrases for each command can be changed in Settings.
+ */
+
+export type VoiceCommandId =
+  | 'stop'
+  | 'cancel'
+  | 'newChat'
+  | 'repeat'
+  | 'readLast'
+  | 'switchModel'
+  | 'stopListening'
+  | 'emergencyStop';
+
+/** Custom phrases per command; commands left out use their default phrases */
+export type VoiceCommandPhrases = Partial<Record<VoiceCommandId, string[]>>;
+
+export type VoiceCommandMatch = {
+  id: VoiceCommandId;
+  /** What followed the phrase, for commands that take one (the model name) */
+  argument?: string;
+};
+
+type VoiceCommandInfo = {
+  label: string;
+  description: string;
+  phrases: string[];
+  /** The phrase is a prefix followed by an argument */
+  takesArgument?: boolean;
+};
+
+export const VOICE_COMMANDS: Record<VoiceCommandId, VoiceCommandInfo> = {
+  stop: {
+    label: 'Stop',
+    description: 'Stop speaking and stop the response',
+    phrases: ['stop', 'stop talking', 'be quiet', 'quiet'],
+  },
+  cancel: {
+    label: 'Cancel',
+    description: 'Take back the message being answered, or the last queued one',
+    phrases: ['cancel that', 'cancel', 'never mind', 'scratch that'],
+  },
+  newChat: {
+    label: 'New chat',
+    description: 'Start a new chat',
+    phrases: ['new chat', 'start a new chat', 'new conversation'],
+  },
+  repeat: {
+    label: 'Repeat',
+    description: 'Say the last sentence again',
+    phrases: ['repeat that', 'say that again', 'repeat', 'what did you say'],
+  },
+  readLast: {
+    label: 'Read last answer',
+    description: 'Read the whole last answer aloud',
+    phrases: ['read the last answer', 'read the answer', 'read that again', 'read it again'],
+  },
+  switchModel: {
+    label: 'Switch model',
+    description: 'Followed by a model name',
+    phrases: ['switch model to', 'switch to model', 'change model to', 'use model'],
+    takesArgument: true,
+  },
+  stopListening: {
+    label: 'Stop listening',
+    description: 'End the hands-free conversation',
+    phrases: ['stop listening', 'end conversation', 'goodbye'],
+  },
+  emergencyStop: {
+    label: 'Emergency stop',
+    description: 'Stop all agent sessions on the server, after you confirm',
+    phrases: ['emergency stop', 'kill switch', 'stop all agents'],
+  },
+};
+
+// Answers that confirm an emergency stop; anything else calls it off
+const CONFIRM_PHRASES = ['yes', 'yes stop', 'yes do it', 'do it', 'confirm', 'confirmed'];
+
+// Politeness and filler around a command
+const LEADING_FILLER = /^(?:(?:ok|okay|hey|please|um|uh|so|now)\s+)+/;
+const TRAILING_FILLER = /(?:\s+(?:please|now|thanks|thank you))+$/;
+
+/** Lower-case words (in any script) without punctuation, as recognizers punctuate inconsistently */
+export function normalizeUtterance(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}'\s.-]/gu, ' ')
+    .replace(/[.-](?=\s|$)/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .replace(LEADING_FILLER, '')
+    .replace(TRAILING_FILLER, '');
+}
+
+export function commandPhrases(id: VoiceCommandId, custom?: VoiceCommandPhrases): string[] {
+  const phrases = custom?.[id]?.length ? custom[id]! : VOICE_COMMANDS[id].phrases;
+  return phrases.map(normalizeUtterance).filter(Boolean);
+}
+
+/** The command `text` is, or null when it is an ordinary message */
+export function matchVoiceCommand(text: string, custom?: VoiceCommandPhrases): VoiceCommandMatch | null {
+  const utterance = normalizeUtterance(text);
+  if (!utterance) return null;
+  const ids = Object.keys(VOICE_COMMANDS) as VoiceCommandId[];
+  let best: { match: VoiceCommandMatch; length: number } | null = null;
+  for (const id of ids) {
+    for (const phrase of commandPhrases(id, custom)) {
+      let match: VoiceCommandMatch | null = null;
+      if (VOICE_COMMANDS[id].takesArgument) {
+        const argument = utterance.startsWith(`${phrase} `) ? utterance.slice(phrase.length + 1).trim() : '';
+        if (argument) match = { id, argument };
+      } else if (utterance === phrase) {
+        match = { id };
+      }
+      // When phrases overlap ("use model" and "use model named"), the longest wins
+      if (match && (!best || phrase.length > best.length)) best = { match, length: phrase.length };
+    }
+  }
+  return best?.match ?? null;
+}
+
+export function isConfirmation(text: string): boolean {
+  return CONFIRM_PHRASES.includes(normalizeUtterance(text));
+}
+
+const NUMBER_WORDS: Record<string, string> = {
+  zero: '0', one: '1', two: '2', three: '3', four: '4', five: '5',
+  six: '6', seven: '7', eight: '8', nine: '9', ten: '10',
+};
+
+// Letters and digits only, with spoken numbers as digits: "GPT four o mini" -> "gpt4omini"
+const compact = (text: string) =>
+  text
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .map((word) => NUMBER_WORDS[word] ?? word)
+    .join('');
+
+/**
+ * The model in `models` that a spoken name refers to: an exact match ignoring spacing and
+ * punctuation, otherwise the shortest model containing the spoken name.
+ */
+export function matchModel(spoken: string, models: string[]): string | null {
+  const wanted = compact(spoken);
+  if (!wanted) return null;
+  const exact = models.find((m) => compact(m) === wanted);
+  if (exact) return exact;
+  const partial = models.filter((m) => compact(m).includes(wanted)).sort((a, b) => a.length - b.length);
+  return partial[0] ?? null;
+}
@@ -0,0 +1,78 @@
+/**
+ * Text-to-speech voices and the languages used for speech
+ *
+ * The installed voices are loaded once and cached, so the speech queue can pick a voice for a
+ * reply's language without waiting. Recognition and speech default to the device's language.
+ */
+import { useEffect, useState } from 'react';
+import * as Speech from 'expo-speech';
+import { getLocales } from 'expo-localization';
+import { detectLanguage } from './languageDetect';
+import { createLogger } from './logger';
+
+const log = createLogger('voice');
+
+let voices: Speech.Voice[] = [];
+let loading: Promise<Speech.Voice[]> | null = null;
+
+/** The installed voices, sorted by language and name */
+export function loadVoices(): Promise<Speech.Voice[]> {
+  if (!loading) {
+    loading = Speech.getAvailableVoicesAsync()
+      .then((list) => {
+        voices = [...list].sort((a, b) => a.language.localeCompare(b.language) || a.name.localeCompare(b.name));
+        return voices;
+      })
+      .catch((e) => {
+        log.warn('Could not list TTS voices', e?.message || e);
+        loading = null;
+        return [];
+      });
+  }
+  return loading;
+}
+
+export function useVoices() {
+  const [list, setList] = useState<Speech.Voice[]>(voices);
+  const [ready, setReady] = useState(voices.length > 0);
+  useEffect(() => {
+    let cancelled = false;
+    loadVoices().then((loaded) => {
+      if (cancelled) return;
+      setList(loaded);
+      setReady(true);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+  return { voices: list, ready } as const;
+}
+
+/** The device's preferred language as a BCP-47 tag, e.g. "de-DE" */
+export function deviceLanguage(): string {
+  return getLocales()[0]?.languageTag || 'en-US';
+}
+
+/** Whether two language tags share their base language ("en-GB" and "en-US") */
+export function sameLanguage(a: string, b: string): boolean {
+  const base = (tag: string) => tag.toLowerCase().split(/[-_]/)[0];
+  return base(a) === base(b);
+}
+
+export function voiceLabel(voice: Speech.Voice): string {
+  return `${voice.name} (${voice.language})`;
+}
+
+/**
+ * Language and voice for reading `sentence` when replies should be spoken in their own
+ * language. Null when the sentence is in the configured language or its language is unclear.
+ */
+export function replyLanguage(sentence: string, language: string): { language: string; voice?: string } | null {
+  const detected = detectLanguage(sentence);
+  if (!detected || sameLanguage(detected, language)) return null;
+  // Prefer the better quality voice when a language has several
+  const candidates = voices.filter((v) => sameLanguage(v.language, detected));
+  const voice = candidates.find((v) => v.quality === Speech.VoiceQuality.Enhanced) ?? candidates[0];
+  return { language: voice?.language ?? detected, voice: voice?.identifier };
+}
@@ -0,0 +1,151 @@
+/**
+ * Streaming HTTP requests over XMLHttpRequest
+ *
+ * React Native's fetch buffers the whole body and has no body.getReader(), but its
+ * XMLHttpRequest fires progress events as data arrives with a growing responseText.
+ * streamXHR hands each newly received slice of text to onChunk so callers can parse
+ * server-sent events incrementally on device.
+ */
+
+export type XHRStreamResponse = {
+  ok: boolean;
+  status: number;
+  statusText: string;
+  headers: { get(name: string): string | null };
+};
+
+export type XHRStreamInit = {
+  method?: string;
+  headers?: Record<string, string>;
+  body?: string;
+  signal?: AbortSignal;
+  /** Called once, as soon as the status line and headers are available */
+  onHeaders?: (res: XHRStreamResponse) => void;
+  /** Called with each new slice of the body; return true to stop reading early */
+  onChunk?: (chunk: string, res: XHRStreamResponse) => boolean | void;
+};
+
+/**
+ * Send a request and stream its body through onChunk.
+ * Resolves with the response (and full body text) once the body is complete or onChunk
+ * returned true; rejects with a TypeError on network failure or an AbortError when the
+ * signal fires. Exceptions thrown by the callbacks abort the request and reject.
+ */
+export function streamXHR(url: string, init: XHRStreamInit = {}): Promise<XHRStreamResponse & { text: string }> {
+  return new Promise((resolve, reject) => {
+    const { signal } = init;
+    const xhr = new XMLHttpRequest();
+    let seen = 0;
+    let settled = false;
+    let headersEmitted = false;
+
+    const response: XHRStreamResponse = {
+      get ok() { return xhr.status >= 200 && xhr.status < 300; },
+      get status() { return xhr.status; },
+      get statusText() { return xhr.statusText; },
+      headers: { get: (name: string) => xhr.getResponseHeader(name) },
+    };
+
+    const cleanup = () => {
+      signal?.removeEventListener('abort', onAbort);
+    };
+
+    const finish = () => {
+      if (settled) return;
+      settled = true;
+      cleanup();
+      resolve({ ...snapshot(), text: xhr.responseText || '' });
+    };
+
+    const fail = (err: unknown) => {
+      if (settled) return;
+      settled = true;
+      cleanup();
+      try { xhr.abort(); } catch {}
+      reject(err);
+    };
+
+    // Freeze the getters so the resolved value survives the XHR being reused or aborted
+    const snapshot = (): XHRStreamResponse => {
+      const status = xhr.status;
+      const statusText = xhr.statusText;
+      const rawHeaders = xhr.getAllResponseHeaders?.() || '';
+      const headerMap: Record<string, string> = {};
+      for (const line of rawHeaders.split(/\r?\n/)) {
+        const idx = line.indexOf(':');
+        if (idx > 0) headerMap[line.slice(0, idx).trim().toLowerCase()] = line.slice(idx + 1).trim();
+      }
+      return {
+        ok: status >= 200 && status < 300,
+        status,
+        statusText,
+        headers: { get: (name: string) => headerMap[name.toLowerCase()] ?? null },
+      };
+    };
+
+    const emitHeaders = () => {
+      if (headersEmitted || xhr.readyState < 2) return;
+      headersEmitted = true;
+      init.onHeaders?.(response);
+    };
+
+    const drain = () => {
+      const text = xhr.responseText || '';
+      if (text.length <= seen) return;
+      const chunk = text.slice(seen);
+      seen = text.length;
+      if (init.onChunk?.(chunk, response) === true) {
+        finish();
+        try { xhr.abort(); } catch {}
+      }
+    };
+
+    const guarded = (fn: () => void) => () => {
+      if (settled) return;
+      try {
+        fn();
+      } catch (err) {
+        fail(err);
+      }
+    };
+
+    function onAbort() {
+      const err = new Error('Request aborted');
+      err.name = 'AbortError';
+      fail(err);
+    }
+
+    if (signal?.aborted) {
+      onAbort();
+      return;
+    }
+    signal?.addEventListener('abort', onAbort);
+
+    xhr.open(init.method ?? 'GET', url, true);
+    xhr.responseType = 'text';
+    for (const [key, value] of Object.entries(init.headers ?? {})) {
+      xhr.setRequestHeader(key, value);
+    }
+
+    xhr.onreadystatechange = guarded(() => {
+      emitHeaders();
+      if (xhr.readyState === 3) drain();
+    });
+    xhr.onprogress = guarded(() => {
+      emitHeaders();
+      drain();
+    });
+    xhr.onload = guarded(() => {
+      emitHeaders();
+      drain();
+      finish();
+    });
+    xhr.onerror = () => fail(new TypeError('Network request failed'));
+    xhr.ontimeout = () => fail(new TypeError('Network request timed out'));
+    xhr.onabort = () => {
+      if (!settled) onAbort();
+    };
+
+    xhr.send(init.body ?? null);
+  });
+}
@@ -12,15 +12,54 @@ import {
   KeyboardAvoidingView,
   ActivityIndicator,
   Alert,
+  Modal,
+  Image,
+  Pressable,
 } from 'react-native';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { EventEmitter } from 'expo-modules-core';
-import { useConfigContext, saveConfig } from '../store/config';
-import { OpenAIClient, ChatMessage } from '../lib/openaiClient';
-import * as Speech from 'expo-speech';
+import { useConfigContext, saveConfig, switchProfile, getActiveProfile } from '../store/config';
+import { useSessionContext } from '../store/sessions';
+import { useConnectionContext } from '../store/connection';
+import { OutboxItem, OutboxSender, isOnline, useOutboxContext } from '../store/outbox';
+import { OpenAIClient, isAbortError, serverConnection } from '../lib/openaiClient';
+import { useTransport } from '../lib/transport';
+import { ApiError, toMessageError } from '../lib/errors';
+import { toChatMessages } from '../lib/chatHistory';
+import { createLogger } from '../lib/logger';
+import { AgentStep, ChatMessage, ChatSettings, ImageAttachment, generateMessageId, resolveChatSettings } from '../types/session';
+import { deleteAttachments, loadImageData, pickImages } from '../lib/attachments';
+import { useSpeechQueue } from '../lib/speechQueue';
+import { useBargeIn } from '../lib/bargeIn';
+import { LOOP_DEFAULTS, LoopState, RecognizerDriver, useConversationLoop } from '../lib/conversationLoop';
+import { VoiceCommandMatch, isConfirmation, matchModel, matchVoiceCommand } from '../lib/voiceCommands';
+import { deviceLanguage, loadVoices, replyLanguage } from '../lib/voices';
 import { useHeaderHeight } from '@react-navigation/elements';
 import { useTheme } from '../ui/ThemeProvider';
 import { spacing, radius, Theme } from '../ui/theme';
+import { ToolCallCard } from '../ui/ToolCallCard';
+import { AgentTimeline } from '../ui/AgentTimeline';
+import { ModelPicker } from '../ui/ModelPicker';
+import { ProfileSwitcher } from '../ui/ProfileSwitcher';
+import { ErrorBubble } from '../ui/ErrorBubble';
+import { ConnectionIndicator } from '../ui/ConnectionIndicator';
+import { ImageThumbnails } from '../ui/ImageThumbnails';
+import { ChatSettingsSheet } from '../ui/ChatSettingsSheet';
+
+const log = createLogger('chat');
+const voiceLog = createLogger('voice');
+
+// Older steps are dropped so long agent runs don't bloat the stored session
+const MAX_AGENT_STEPS = 50;
+// How long a spoken "emergency stop" waits for its confirmation
+const KILL_CONFIRM_MS = 15000;
+// What the hands-free conversation is doing, for the mic button and the listening overlay
+const LOOP_STATUS: Record<LoopState, string> = {
+  idle: 'Tap to Talk',
+  listening: 'Listening…',
+  sending: 'Sending…',
+  speaking: 'Speaking…',
+};
 
 export default function ChatScreen({ route, navigation }: any) {
   const insets = useSafeAreaInsets();
@@ -28,6 +67,12 @@ export default function ChatScreen({ route, navigation }: any) {
   const { theme } = useTheme();
   const styles = useMemo(() => createStyles(theme), [theme]);
   const { config, setConfig } = useConfigContext();
+  const sessionStore = useSessionContext();
+  const connection = useConnectionContext();
+  const outbox = useOutboxContext();
+  // Voice callbacks are wired once, so send() reads the connection through a ref
+  const connectionRef = useRef(connection);
+  useEffect(() => { connectionRef.current = connection; }, [connection]);
   const handsFree = !!config.handsFree;
   const handsFreeRef = useRef<boolean>(handsFree);
   useEffect(() => { handsFreeRef.current = !!config.handsFree; }, [config.handsFree]);
@@ -39,15 +84,25 @@ export default function ChatScreen({ route, navigation }: any) {
     try { await saveConfig(nextCfg); } catch {}
   };
 
+  // System prompt, sampling parameters, model and voice: the session's overrides on top of the profile's defaults
+  const [showChatSettings, setShowChatSettings] = useState(false);
+  const sessionSettings = sessionStore.currentSession?.settings;
+  const chatSettings = resolveChatSettings(config.chatDefaults, sessionSettings);
+  const chatSettingsRef = useRef<ChatSettings>(chatSettings);
+  useEffect(() => { chatSettingsRef.current = chatSettings; });
+  const saveChatSettings = (settings: ChatSettings) => {
+    const id = sessionStore.currentSessionId;
+    if (id) sessionStore.updateSession(id, { settings });
+    else sessionStore.createNewSession({ settings });
+  };
+  const activeModel = chatSettings.model || config.model;
+
   // Create client early so it's available for handleKillSwitch
-  const client = new OpenAIClient({
-    baseUrl: config.baseUrl,
-    apiKey: config.apiKey,
-    model: config.model,
-  });
+  const transport = useTransport();
+  const client = new OpenAIClient({ ...serverConnection(config), model: activeModel }, transport);
 
   const handleKillSwitch = async () => {
-    console.log('[ChatScreen] Kill switch button pressed');
+    log.info('Kill switch button pressed');
 
     // Alert.alert doesn't work on web, use window.confirm for web platform
     if (Platform.OS === 'web') {
@@ -55,17 +110,17 @@ export default function ChatScreen({ route, navigation }: any) {
         '⚠️ Emergency Stop\n\nAre you sure you want to stop all agent sessions on the remote server? This will immediately terminate any running tasks.'
       );
       if (confirmed) {
-        console.log('[ChatScreen] Kill switch confirmed (web), calling API...');
+        log.info('Kill switch confirmed (web), calling API...');
         try {
           const result = await client.killSwitch();
-          console.log('[ChatScreen] Kill switch result:', result);
+          log.info('Kill switch result:', result);
           if (result.success) {
             window.alert(result.message || 'All sessions stopped');
           } else {
             window.alert('Error: ' + (result.error || 'Failed to stop sessions'));
           }
         } catch (e: any) {
-          console.error('[ChatScreen] Kill switch error:', e);
+          log.error('Kill switch error:', e);
           window.alert('Error: ' + (e.message || 'Failed to connect to server'));
         }
       }
@@ -82,17 +137,17 @@ export default function ChatScreen({ route, navigation }: any) {
           text: 'Stop All',
           style: 'destructive',
           onPress: async () => {
-            console.log('[ChatScreen] Kill switch confirmed, calling API...');
+            log.info('Kill switch confirmed, calling API...');
             try {
               const result = await client.killSwitch();
-              console.log('[ChatScreen] Kill switch result:', result);
+              log.info('Kill switch result:', result);
               if (result.success) {
                 Alert.alert('Success', result.message || 'All sessions stopped');
               } else {
                 Alert.alert('Error', result.error || 'Failed to stop sessions');
               }
             } catch (e: any) {
-              console.error('[ChatScreen] Kill switch error:', e);
+              log.error('Kill switch error:', e);
               Alert.alert('Error', e.message || 'Failed to connect to server');
             }
           },
@@ -105,6 +160,22 @@ export default function ChatScreen({ route, navigation }: any) {
     navigation?.setOptions?.({
       headerRight: () => (
         <View style={{ flexDirection: 'row', alignItems: 'center' }}>
+          <TouchableOpacity
+            onPress={() => setShowChatSettings(true)}
+            accessibilityRole="button"
+            accessibilityLabel="Chat settings: system prompt and sampling parameters"
+            style={{ paddingHorizontal: 8, paddingVertical: 6 }}
+          >
+            <Text style={{ fontSize: 18, color: theme.colors.foreground }}>🎛️</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            onPress={() => navigation.navigate('Sessions')}
+            accessibilityRole="button"
+            accessibilityLabel="Show all chats"
+            style={{ paddingHorizontal: 8, paddingVertical: 6 }}
+          >
+            <Text style={{ fontSize: 18, color: theme.colors.foreground }}>💬</Text>
+          </TouchableOpacity>
           <TouchableOpacity
             onPress={handleKillSwitch}
             accessibilityRole="button"
@@ -150,12 +221,37 @@ export default function ChatScreen({ route, navigation }: any) {
   }, [navigation, handsFree, handleKillSwitch]);
 
 
-  const [messages, setMessages] = useState<ChatMessage[]>([]);
+  const sessionId = sessionStore.currentSessionId;
+  const sessionIdRef = useRef<string | null>(sessionId);
+  useEffect(() => { sessionIdRef.current = sessionId; }, [sessionId]);
+  const [messages, setMessages] = useState<ChatMessage[]>(() => sessionStore.currentSession?.messages ?? []);
+  // Voice callbacks are wired once, so they read history through a ref
+  const messagesRef = useRef<ChatMessage[]>(messages);
+  useEffect(() => { messagesRef.current = messages; }, [messages]);
+  // Tool results are rendered inside the card of the call that produced them
+  const toolResults = useMemo(() => {
+    const results: Record<string, string> = {};
+    for (const m of messages) {
+      if (m.role === 'tool' && m.toolCallId) results[m.toolCallId] = m.content;
+    }
+    return results;
+  }, [messages]);
   const [input, setInput] = useState('');
+  // Photos waiting to go out with the next message, typed or spoken
+  const [pendingImages, setPendingImages] = useState<ImageAttachment[]>([]);
+  const pendingImagesRef = useRef<ImageAttachment[]>(pendingImages);
+  useEffect(() => { pendingImagesRef.current = pendingImages; }, [pendingImages]);
+  const [attaching, setAttaching] = useState(false);
+  const [previewImage, setPreviewImage] = useState<ImageAttachment | null>(null);
   const [listening, setListening] = useState(false);
   const [liveTranscript, setLiveTranscript] = useState('');
   const [responding, setResponding] = useState(false);
   const [debugInfo, setDebugInfo] = useState<string>('');
+  // The assistant message currently being streamed, if any
+  const activeAssistantId = useMemo(
+    () => (responding ? [...messages].reverse().find((m) => m.role === 'assistant')?.id : undefined),
+    [messages, responding],
+  );
 
   const [willCancel, setWillCancel] = useState(false);
   const startYRef = useRef<number | null>(null);
@@ -191,77 +287,506 @@ export default function ChatScreen({ route, navigation }: any) {
 
 
   const convoRef = useRef<string | undefined>(undefined);
+  const abortRef = useRef<AbortController | null>(null);
+  // Settles when the exchange being sent is over, so queued messages can wait for it
+  const exchangeRef = useRef<Promise<void> | null>(null);
+  // Set by "cancel that": the aborted exchange is removed rather than kept as stopped
+  const discardRef = useRef<AbortController | null>(null);
+
+  // Abort any in-flight response when leaving the screen
+  useEffect(() => {
+    return () => {
+      abortRef.current?.abort();
+    };
+  }, []);
+
+  // Responses are spoken sentence by sentence while they stream in
+  const speech = useSpeechQueue();
+  const speechQueue = speech.queue;
+  // Spoken replies use the chat's language and voice, optionally switching to the reply's language
+  const { language, voice, rate, pitch, followReplyLanguage } = chatSettings;
+  const speechLanguage = language || deviceLanguage();
+  useEffect(() => {
+    speechQueue.configure({
+      language: speechLanguage,
+      voice,
+      rate,
+      pitch,
+      languageFor: followReplyLanguage ? (sentence) => replyLanguage(sentence, speechLanguage) : undefined,
+    });
+    if (followReplyLanguage) loadVoices();
+  }, [speechLanguage, voice, rate, pitch, followReplyLanguage]);
+  const recognitionLanguage = () => chatSettingsRef.current.language || deviceLanguage();
+  // Hands-free recognition ignores the assistant's own voice and lets the user talk over it
+  const bargeIn = useBargeIn(speechQueue);
+  // Hands-free mode runs the whole conversation: listen, send after a pause, speak, listen again.
+  // The loop reaches the recognizer through a ref so it always gets this render's callbacks.
+  const loopDriverRef = useRef<RecognizerDriver | null>(null);
+  const { loop, state: loopState } = useConversationLoop(speechQueue, () => loopDriverRef.current!, {
+    silenceMs: config.handsFreeSilenceMs ?? LOOP_DEFAULTS.silenceMs,
+    idleTimeoutMs: config.handsFreeIdleTimeoutMs ?? LOOP_DEFAULTS.idleTimeoutMs,
+    earcons: config.handsFreeEarcons ?? LOOP_DEFAULTS.earcons,
+  });
+  useEffect(() => {
+    if (!handsFree) loop.stop();
+  }, [handsFree]);
+  // Spoken once the next session has loaded, e.g. after "new chat"
+  const announceRef = useRef<string | null>(null);
+
+  const stopResponse = () => {
+    log.info('Stop pressed, aborting response');
+    abortRef.current?.abort();
+  };
+
+  // A new chat only becomes a session once something is sent in it, so unused ones don't pile up
+  const startNewChat = () => sessionStore.setCurrentSession(null);
+
+  // Load messages whenever the active session changes
+  useEffect(() => {
+    // Don't keep reading out the previous chat's answer
+    speechQueue.stop();
+    if (announceRef.current) {
+      speechQueue.say(announceRef.current);
+      announceRef.current = null;
+    }
+    setMessages(sessionStore.currentSession?.messages ?? []);
+    convoRef.current = sessionStore.currentSession?.serverConversationId;
+  }, [sessionId]);
+
+  // A queued message of this chat the outbox sent in the background lands in the store; show it
+  useEffect(() => {
+    const stored = sessionStore.currentSession?.messages;
+    if (!stored || stored === messagesRef.current || responding) return;
+    setMessages(stored);
+    convoRef.current = sessionStore.currentSession?.serverConversationId;
+  }, [sessionStore.currentSession?.messages]);
+
+  const [showModelPicker, setShowModelPicker] = useState(false);
+  const selectModel = async (model: string) => {
+    // A chat started with a persona keeps its own model; otherwise switch the profile's default
+    if (sessionSettings?.model) {
+      saveChatSettings({ ...sessionSettings, model });
+      return;
+    }
+    const nextCfg = { ...config, model };
+    setConfig(nextCfg);
+    try { await saveConfig(nextCfg); } catch {}
+  };
+
+  const [showProfileSwitcher, setShowProfileSwitcher] = useState(false);
+  const profileName = getActiveProfile(config)?.name ?? '';
+  const selectProfile = async (profileId: string) => {
+    if (profileId === config.activeProfileId) return;
+    const nextCfg = switchProfile(config, profileId);
+    setConfig(nextCfg);
+    try { await saveConfig(nextCfg); } catch {}
+  };
+
+  // Re-check the server whenever the chat comes back into view
+  useEffect(() => navigation?.addListener?.('focus', () => connection.check()), [navigation, connection.check]);
+
+  // Title shows the session name with connection status and quick profile and model switchers underneath
+  useEffect(() => {
+    const title = sessionStore.currentSession?.title ?? 'Chat';
+    navigation?.setOptions?.({
+      title,
+      headerTitle: () => (
+        <View style={{ maxWidth: 180 }}>
+          <Text style={{ ...theme.typography.h2 }} numberOfLines={1}>{title}</Text>
+          <View style={{ flexDirection: 'row', alignItems: 'center' }}>
+            <ConnectionIndicator connection={connection} onPress={connection.check} />
+            {config.profiles.length > 1 && (
+              <TouchableOpacity
+                onPress={() => setShowProfileSwitcher(true)}
+                accessibilityRole="button"
+                accessibilityLabel={`Profile ${profileName}. Tap to switch profile`}
+              >
+                <Text style={{ ...theme.typography.caption }} numberOfLines={1}>{profileName} · </Text>
+              </TouchableOpacity>
+            )}
+            <TouchableOpacity
+              onPress={() => setShowModelPicker(true)}
+              accessibilityRole="button"
+              accessibilityLabel={`Model ${activeModel}. Tap to switch model`}
+              style={{ flexShrink: 1 }}
+            >
+              <Text style={{ ...theme.typography.caption }} numberOfLines={1}>{activeModel} ▾</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      ),
+    });
+  }, [navigation, sessionStore.currentSession?.title, activeModel, config.profiles.length, profileName, theme, connection.status, connection.latencyMs, connection.checking, connection.check]);
+
+  // Messages waiting for the connection to come back; the outbox sends them in order
+  const queued = useMemo(
+    () => outbox.items.filter((i) => i.sessionId === sessionId),
+    [outbox.items, sessionId],
+  );
+  const queuedRef = useRef<OutboxItem[]>(queued);
+  useEffect(() => { queuedRef.current = queued; }, [queued]);
+  const [editingQueued, setEditingQueued] = useState<{ id: string; text: string } | null>(null);
+  // Editing a queued message holds this chat's queue until the edit is saved or cancelled
+  useEffect(() => {
+    outbox.hold(editingQueued?.id ?? null);
+    return () => outbox.hold(null);
+  }, [editingQueued?.id]);
+  const online = isOnline(connection, outbox.networkFailedAt);
+
+  const queueMessage = (text: string, source: OutboxItem['source'], attachments?: ImageAttachment[]) => {
+    const id = sessionIdRef.current;
+    if (!id) return;
+    outbox.enqueue(id, text, source, attachments);
+    setDebugInfo('Message queued');
+    if (source === 'voice') {
+      speechQueue.say("Message queued. I'll send it when the connection is back.");
+    }
+  };
 
-  const send = async (text: string) => {
-    if (!text.trim()) return;
+  /**
+   * Send a user message.
+   * - `base`: history to send it after; retries pass the history from before the failed exchange
+   * - `source`: how it was composed, so voice messages get spoken feedback when queued
+   * - `outboxId`: set when sending a queued message; it leaves the outbox once the send settles
+   * - `attachments`: images to send with the text (the message may then have no text); new
+   *   messages take the pending photos
+   * While the server is unreachable, or earlier messages are still queued, new messages go to
+   * the outbox instead so they keep their order. A message that comes in while a response is
+   * still arriving (e.g. spoken over it) waits for it to finish. Resolves false when the
+   * message ended up in (or stays in) the outbox.
+   */
+  const send = async (
+    text: string,
+    opts: { base?: ChatMessage[]; source?: OutboxItem['source']; outboxId?: string; attachments?: ImageAttachment[] } = {},
+  ): Promise<boolean> => {
+    // One exchange at a time: a second one would take over the abort controller and the history
+    while (exchangeRef.current) await exchangeRef.current;
+    const { base = messagesRef.current, source = 'text', outboxId } = opts;
+    // Retries and queued messages bring their own images; anything else takes the pending photos
+    const takesPending = !outboxId && !opts.base;
+    const attachments = opts.attachments ?? (takesPending ? pendingImagesRef.current : undefined);
+    if (!text.trim() && !attachments?.length) return true;
+    loop.sending();
+    // The first message of a new chat starts its session
+    const sessionAtSend = sessionIdRef.current ?? sessionStore.createNewSession().id;
+    sessionIdRef.current = sessionAtSend;
 
-    console.log('[ChatScreen] Sending message:', text);
-    console.log('[ChatScreen] Platform:', Platform.OS);
-    console.log('[ChatScreen] Current config:', {
+    if (!outboxId && (connectionRef.current.status === 'unreachable' || queuedRef.current.length > 0)) {
+      log.info('Queueing message');
+      queueMessage(text, source, attachments);
+      setInput('');
+      if (takesPending) setPendingImages([]);
+      loop.responded();
+      return false;
+    }
+
+    log.info('Sending message on', Platform.OS, {
       baseUrl: config.baseUrl,
-      model: config.model,
-      apiKeyLength: config.apiKey?.length || 0
+      model: activeModel,
+      length: text.length,
+      images: attachments?.length ?? 0,
     });
 
     setDebugInfo(`Starting request to ${config.baseUrl}...`);
 
-    const userMsg: ChatMessage = { role: 'user', content: text };
-    setMessages((m) => [...m, userMsg, { role: 'assistant', content: '' }]);
+    const now = Date.now();
+    const userMsg: ChatMessage = {
+      id: generateMessageId(),
+      role: 'user',
+      content: text,
+      timestamp: now,
+      ...(attachments?.length ? { attachments } : {}),
+    };
+    const assistantId = generateMessageId();
+    const history = [...base, userMsg];
+    // The exchange keeps its own copy of the chat and saves it to the session it was sent in, at
+    // the start and once settled, so leaving the screen mid-response loses neither side of it.
+    // Streaming updates only reach the screen, and only while that chat is still open.
+    let chat: ChatMessage[] = [...history, { id: assistantId, role: 'assistant', content: '', timestamp: now }];
+    const updateChat = (updater: (m: ChatMessage[]) => ChatMessage[]) => {
+      chat = updater(chat);
+      if (sessionIdRef.current !== sessionAtSend) return;
+      messagesRef.current = chat;
+      setMessages(chat);
+    };
+    const updateAssistant = (updater: (msg: ChatMessage) => ChatMessage) =>
+      updateChat((m) => m.map((msg) => (msg.id === assistantId ? updater(msg) : msg)));
+    updateChat((m) => m);
+    sessionStore.setSessionMessages(sessionAtSend, chat);
     setResponding(true);
+    const controller = new AbortController();
+    abortRef.current = controller;
+    let settled!: () => void;
+    const exchange = new Promise<void>((resolve) => { settled = resolve; });
+    exchangeRef.current = exchange;
 
     setInput('');
+    if (takesPending) setPendingImages([]);
+    // A new response replaces whatever is still being read out; with speech off it stays quiet
+    if (chatSettingsRef.current.speakResponses === false) speechQueue.interrupt();
+    else speechQueue.stop();
+    // Whether anything came back; a network failure before that is queued rather than shown
+    let received = false;
     try {
       let full = '';
-      console.log('[ChatScreen] Starting chat request with', messages.length + 1, 'messages');
+      log.info('Starting chat request with', history.length, 'messages');
       setDebugInfo('Request sent, waiting for response...');
-      const reply = await client.chat([...messages, userMsg], (tok) => {
+      const { systemPrompt, temperature, maxTokens, topP, stop } = chatSettingsRef.current;
+      const images = await loadImageData(history);
+      const reply = await client.chat(toChatMessages(history, images), (tok) => {
+        received = true;
         full += tok;
-        console.log('[ChatScreen] Token received:', tok);
+        log.debug('Token received:', tok);
         setDebugInfo(`Receiving tokens... (${full.length} chars so far)`);
 
-        setMessages((m) => {
-          const copy = [...m];
-          // Update the last assistant message incrementally
-          for (let i = copy.length - 1; i >= 0; i--) {
-            if (copy[i].role === 'assistant') {
-              copy[i] = { ...copy[i], content: (copy[i].content || '') + tok };
-              break;
+        // Update the assistant message incrementally
+        updateAssistant((msg) => ({ ...msg, content: (msg.content || '') + tok }));
+        speechQueue.push(tok);
+      }, {
+        conversationId: convoRef.current,
+        systemPrompt,
+        params: { temperature, maxTokens, topP, stop },
+        onConversationId: (conversationId) => {
+          convoRef.current = conversationId;
+          sessionStore.updateSession(sessionAtSend, { serverConversationId: conversationId });
+        },
+        signal: controller.signal,
+        onRetry: ({ attempt, delayMs, error }) => {
+          setDebugInfo(`${error.message} — retrying in ${Math.ceil(delayMs / 1000)}s (attempt ${attempt})`);
+        },
+        onToolCalls: (calls) => {
+          received = true;
+          const toolCalls = calls.map((c) => ({ id: c.id, name: c.function.name, arguments: c.function.arguments }));
+          updateAssistant((msg) => ({ ...msg, toolCalls }));
+        },
+        onToolResult: ({ toolCallId, content }) => {
+          updateChat((m) => [...m, { id: generateMessageId(), role: 'tool', content, toolCallId, timestamp: Date.now() }]);
+        },
+        onEvent: (event) => {
+          received = true;
+          const step: AgentStep = {
+            type: event.type,
+            label: event.label ?? '',
+            toolName: event.toolName,
+            iteration: event.iteration,
+            maxIterations: event.maxIterations,
+            timestamp: Date.now(),
+          };
+          setDebugInfo(`Agent: ${step.label || step.type}`);
+          updateAssistant((msg) => {
+            const steps = msg.agentSteps ?? [];
+            const last = steps[steps.length - 1];
+            // Servers often repeat the same progress update; only record changes
+            if (last && last.type === step.type && last.label === step.label && last.toolName === step.toolName && last.iteration === step.iteration) {
+              return msg;
             }
-          }
-          return copy;
-        });
+            return { ...msg, agentSteps: [...steps, step].slice(-MAX_AGENT_STEPS) };
+          });
+        },
       });
       const finalText = reply || full;
-      console.log('[ChatScreen] Chat completed, final text length:', finalText?.length || 0);
+      log.info('Chat completed, final text length:', finalText?.length || 0);
       setDebugInfo(`Completed! Received ${finalText?.length || 0} characters`);
 
       if (finalText) {
-        setMessages((m) => {
-          const copy = [...m];
-          for (let i = copy.length - 1; i >= 0; i--) {
-            if (copy[i].role === 'assistant') {
-              copy[i] = { ...copy[i], content: finalText };
-              break;
-            }
-          }
-          return copy;
-        });
-        Speech.speak(finalText, { language: 'en-US' });
+        updateAssistant((msg) => ({ ...msg, content: finalText }));
+        // Non-streaming servers deliver the whole answer at once
+        if (!full) speechQueue.push(finalText);
       }
     } catch (e: any) {
-      console.error('[ChatScreen] Chat error:', e);
-      console.error('[ChatScreen] Error details:', {
-        message: e.message,
-        stack: e.stack,
-        name: e.name
-      });
+      if (isAbortError(e)) {
+        if (discardRef.current === controller) {
+          setDebugInfo('Message cancelled');
+          updateChat((m) => {
+            const idx = m.findIndex((msg) => msg.id === userMsg.id);
+            return idx >= 0 ? m.slice(0, idx) : m;
+          });
+          // The photos went with the cancelled message and nothing refers to them anymore
+          if (userMsg.attachments) deleteAttachments(userMsg.attachments);
+          return true;
+        }
+        // Keep whatever streamed in so far and mark it as stopped
+        setDebugInfo('Response stopped');
+        updateAssistant((msg) => ({ ...msg, status: 'stopped' }));
+        return true;
+      }
+      if (e instanceof ApiError && e.kind === 'network' && !received) {
+        // Nothing came back, so take the exchange out of the chat and keep the message queued instead
+        updateChat((m) => m.filter((msg) => msg.id !== userMsg.id && msg.id !== assistantId));
+        // A queued message stays in the outbox, which re-checks the connection itself
+        if (outboxId) return false;
+        queueMessage(text, source, attachments);
+        outbox.reportNetworkFailure();
+        connectionRef.current.check();
+        return false;
+      }
+      log.error('Chat error:', { name: e.name, message: e.message });
       setDebugInfo(`Error: ${e.message}`);
-      setMessages((m) => [...m, { role: 'assistant', content: `Error: ${e.message}` }]);
+      const error = toMessageError(e);
+      // Partial text that already streamed stays visible above the error
+      updateAssistant((msg) => ({ ...msg, status: 'error', error }));
     } finally {
-      console.log('[ChatScreen] Chat request finished');
+      log.info('Chat request finished');
+      sessionStore.setSessionMessages(sessionAtSend, chat);
+      // Speak the last sentence, which had no following text to mark its end
+      speechQueue.end();
+      loop.responded();
+      if (abortRef.current === controller) abortRef.current = null;
+      if (exchangeRef.current === exchange) exchangeRef.current = null;
+      settled();
+      if (discardRef.current === controller) discardRef.current = null;
       setResponding(false);
       setTimeout(() => setDebugInfo(''), 3000); // Clear debug info after 3 seconds
     }
+    return true;
+  };
+
+  // Set while a spoken "emergency stop" waits for its confirmation: when the wait ends
+  const killConfirmRef = useRef(0);
+
+  const runKillSwitch = async () => {
+    log.info('Kill switch confirmed by voice, calling API...');
+    abortRef.current?.abort();
+    try {
+      const result = await client.killSwitch();
+      log.info('Kill switch result:', result);
+      speechQueue.say(result.success
+        ? result.message || 'All agent sessions stopped.'
+        : `Emergency stop failed. ${result.error || ''}`);
+    } catch (error: any) {
+      log.error('Kill switch error:', error);
+      speechQueue.say('Emergency stop failed. The server could not be reached.');
+    }
+  };
+
+  const runVoiceCommand = async ({ id, argument }: VoiceCommandMatch) => {
+    voiceLog.info('Voice command', id, argument ?? '');
+    switch (id) {
+      case 'stop':
+        speechQueue.interrupt();
+        abortRef.current?.abort();
+        break;
+      case 'cancel': {
+        speechQueue.interrupt();
+        if (abortRef.current) {
+          discardRef.current = abortRef.current;
+          abortRef.current.abort();
+          speechQueue.say('Cancelled.');
+          break;
+        }
+        const last = queuedRef.current[queuedRef.current.length - 1];
+        if (last) {
+          outbox.discard(last.id);
+          speechQueue.say('Queued message cancelled.');
+        } else {
+          speechQueue.say('Nothing to cancel.');
+        }
+        break;
+      }
+      case 'newChat':
+        abortRef.current?.abort();
+        if (!sessionIdRef.current) {
+          speechQueue.say('New chat.');
+          break;
+        }
+        announceRef.current = 'New chat.';
+        startNewChat();
+        break;
+      case 'repeat':
+        speechQueue.stop();
+        speechQueue.say(speechQueue.lastSpoken ?? 'Nothing to repeat yet.');
+        break;
+      case 'readLast': {
+        const answer = [...messagesRef.current].reverse().find((m) => m.role === 'assistant' && m.content.trim());
+        speechQueue.stop();
+        speechQueue.say(answer?.content ?? 'There is no answer to read yet.');
+        break;
+      }
+      case 'switchModel': {
+        try {
+          const models = (await client.listModels()).map((m) => m.id);
+          const model = matchModel(argument ?? '', models);
+          if (model) {
+            await selectModel(model);
+            speechQueue.say(`Switched to ${model}.`);
+          } else {
+            speechQueue.say(`I couldn't find a model called ${argument}.`);
+          }
+        } catch (e: any) {
+          voiceLog.warn('Could not list models for voice command', e?.message || e);
+          speechQueue.say("I couldn't load the model list.");
+        }
+        break;
+      }
+      case 'stopListening':
+        loop.stop();
+        break;
+      case 'emergencyStop':
+        speechQueue.interrupt();
+        killConfirmRef.current = Date.now() + KILL_CONFIRM_MS;
+        speechQueue.say('Emergency stop. This stops all agent sessions on the server. Say yes to confirm.');
+        break;
+    }
+  };
+
+  /**
+   * A final spoken transcript: a voice command is carried out and never sent to the model,
+   * anything else is sent as a message.
+   */
+  const handleVoiceInput = (text: string) => {
+    if (killConfirmRef.current) {
+      const waiting = Date.now() < killConfirmRef.current;
+      killConfirmRef.current = 0;
+      if (waiting) {
+        loop.handled();
+        if (isConfirmation(text)) runKillSwitch();
+        else speechQueue.say('Emergency stop cancelled.');
+        return;
+      }
+    }
+    const command = matchVoiceCommand(text, config.voiceCommands);
+    if (!command) {
+      send(text, { source: 'voice' });
+      return;
+    }
+    loop.handled();
+    runVoiceCommand(command);
+  };
+  // Recognizer callbacks outlive renders, so they go through a ref to reach the current handler
+  const voiceInputRef = useRef(handleVoiceInput);
+  useEffect(() => { voiceInputRef.current = handleVoiceInput; });
+
+  /** Drop the failed last exchange and send its user message again */
+  const retryFailed = (messageId: string) => {
+    if (responding) return;
+    const current = messagesRef.current;
+    const failedIdx = current.findIndex((m) => m.id === messageId);
+    let userIdx = failedIdx - 1;
+    while (userIdx >= 0 && current[userIdx].role !== 'user') userIdx--;
+    // Resending an older exchange would drop everything said after it
+    if (failedIdx < 0 || failedIdx !== current.length - 1 || userIdx < 0) return;
+    send(current[userIdx].content, { base: current.slice(0, userIdx), attachments: current[userIdx].attachments });
+  };
+
+  // While this chat is open the outbox hands its queued messages to send(), which waits for any
+  // response still streaming in, so the reply shows up here as it arrives
+  const sendQueued: OutboxSender = (item) =>
+    send(item.text, { source: item.source, outboxId: item.id, attachments: item.attachments });
+  const sendQueuedRef = useRef(sendQueued);
+  useEffect(() => { sendQueuedRef.current = sendQueued; });
+  useEffect(() => {
+    if (!sessionId) return;
+    return outbox.registerSender(sessionId, (item) => sendQueuedRef.current(item));
+  }, [sessionId, outbox.registerSender]);
+
+  const saveQueuedEdit = () => {
+    if (!editingQueued) return;
+    const text = editingQueued.text.trim();
+    const hasImages = !!queued.find((q) => q.id === editingQueued.id)?.attachments?.length;
+    // Clearing the text discards the message, unless it still has photos to send
+    if (text || hasImages) outbox.updateText(editingQueued.id, text);
+    else outbox.discard(editingQueued.id);
+    setEditingQueued(null);
   };
 
   // Real-time speech results (web handled in ensureWebRecognizer; native listeners are attached on start)
@@ -272,16 +797,19 @@ export default function ChatScreen({ route, navigation }: any) {
     // @ts-ignore
     const SRClass = (window as any).SpeechRecognition || (window as any).webkitSpeechRecognition;
     if (!SRClass) {
-      console.warn('[Voice] Web Speech API not available (use Chrome/Edge over HTTPS).');
+      voiceLog.warn('Web Speech API not available (use Chrome/Edge over HTTPS).');
       return false;
     }
     if (!webRecognitionRef.current) {
       const rec = new SRClass();
-      rec.lang = 'en-US';
+      rec.lang = recognitionLanguage();
       rec.interimResults = true;
       rec.continuous = handsFreeRef.current;
       rec.onstart = () => {};
-      rec.onerror = (ev: any) => console.warn('[Voice] web recognition error', ev?.error || ev);
+      rec.onerror = (ev: any) => {
+        voiceLog.warn('web recognition error', ev?.error || ev);
+        loop.recognizerError(ev?.error);
+      };
       rec.onresult = (ev: any) => {
         let interim = '';
         let finalText = '';
@@ -291,13 +819,22 @@ export default function ChatScreen({ route, navigation }: any) {
           if (res.isFinal) finalText += txt;
           else interim += txt;
         }
+        // No volume events on web, so speech heard during playback is simply dropped
+        if (handsFreeRef.current) {
+          if (interim) interim = bargeIn.transcript(interim) ?? '';
+          if (finalText) {
+            finalText = bargeIn.transcript(finalText) ?? '';
+            bargeIn.endSegment();
+          }
+          loop.heard(finalText || interim);
+        }
         if (interim) setLiveTranscript(interim);
         if (finalText) {
           if (handsFreeRef.current) {
             setLiveTranscript('');
             webFinalRef.current = '';
             const toSend = finalText.trim();
-            if (toSend) send(toSend);
+            if (toSend) voiceInputRef.current(toSend);
           } else {
             webFinalRef.current += finalText;
           }
@@ -310,9 +847,10 @@ export default function ChatScreen({ route, navigation }: any) {
         const willEdit = willCancelRef.current;
         if (!handsFreeRef.current && finalText) {
           if (willEdit) setInput((t) => (t ? `${t} ${finalText}` : finalText));
-          else send(finalText);
+          else voiceInputRef.current(finalText);
         }
         webFinalRef.current = '';
+        loop.recognizerEnded();
       };
       webRecognitionRef.current = rec;
     }
@@ -321,9 +859,12 @@ export default function ChatScreen({ route, navigation }: any) {
 
   // Native 'end' event handled via lazy listener; web handled in ensureWebRecognizer onend
 
-  const startRecording = async (e?: GestureResponderEvent) => {
+  /** `auto` is set when the hands-free loop (re)starts listening rather than the user */
+  const startRecording = async (e?: GestureResponderEvent, auto = false) => {
     if (startingRef.current || listening) { return; }
     startingRef.current = true;
+    // Pressing the mic means the user wants to talk now
+    if (!auto) speechQueue.interrupt();
     try {
       setWillCancel(false);
       setLiveTranscript('');
@@ -342,21 +883,30 @@ export default function ChatScreen({ route, navigation }: any) {
             }
             cleanupNativeSubs();
             const subResult = srEmitterRef.current.addListener('result', (event: any) => {
-              const t = event?.results?.[0]?.transcript ?? event?.text ?? event?.transcript ?? '';
+              const heard = event?.results?.[0]?.transcript ?? event?.text ?? event?.transcript ?? '';
+              // While the assistant is talking the recognizer hears it too; that is never sent
+              const t = handsFreeRef.current && heard ? bargeIn.transcript(heard) ?? '' : heard;
+              if (handsFreeRef.current && event?.isFinal) bargeIn.endSegment();
+              if (handsFreeRef.current) loop.heard(t);
               if (t) setLiveTranscript(t);
               if (event?.isFinal && t) {
                 if (handsFreeRef.current) {
                   const final = t.trim();
                   nativeFinalRef.current = '';
                   setLiveTranscript('');
-                  if (final) send(final);
+                  if (final) voiceInputRef.current(final);
                 } else {
                   nativeFinalRef.current = t;
                 }
               }
             });
             const subError = srEmitterRef.current.addListener('error', (event: any) => {
-              console.warn('[Voice] recognition error', event);
+              voiceLog.warn('recognition error', event);
+              loop.recognizerError(event?.error);
+            });
+            // Talking over the assistant stops playback; the utterance is then captured as usual
+            const subVolume = srEmitterRef.current.addListener('volumechange', (event: any) => {
+              if (handsFreeRef.current && bargeIn.onVolume(event?.value ?? -2)) setLiveTranscript('');
             });
             const subEnd = srEmitterRef.current.addListener('end', () => {
               setListening(false);
@@ -365,11 +915,13 @@ export default function ChatScreen({ route, navigation }: any) {
               const willEdit = willCancelRef.current;
               if (!handsFreeRef.current && finalText) {
                 if (willEdit) setInput((t) => (t ? `${t} ${finalText}` : finalText));
-                else send(finalText);
+                else voiceInputRef.current(finalText);
               }
               nativeFinalRef.current = '';
+              // The OS ends recognition on its own now and then; the hands-free loop restarts it
+              loop.recognizerEnded();
             });
-            srSubsRef.current.push(subResult, subError, subEnd);
+            srSubsRef.current.push(subResult, subError, subVolume, subEnd);
 
             // Permissions flow
             try {
@@ -377,28 +929,35 @@ export default function ChatScreen({ route, navigation }: any) {
               if (!perm?.granted) {
                 const req = await SR.ExpoSpeechRecognitionModule.requestPermissionsAsync();
                 if (!req?.granted) {
-                  console.warn('[Voice] microphone/speech permission not granted; aborting');
+                  voiceLog.warn('microphone/speech permission not granted; aborting');
                   setListening(false);
                   startingRef.current = false;
                   return;
                 }
               }
             } catch (perr) {
-              console.warn('[Voice] permission check/request failed', perr);
+              voiceLog.warn('permission check/request failed', perr);
             }
 
             // Start recognition
             try {
-              SR.ExpoSpeechRecognitionModule.start({ lang: 'en-US', interimResults: true, continuous: handsFreeRef.current, volumeChangeEventOptions: { enabled: handsFreeRef.current, intervalMillis: 250 } });
+              SR.ExpoSpeechRecognitionModule.start({
+                lang: recognitionLanguage(),
+                interimResults: true,
+                continuous: handsFreeRef.current,
+                volumeChangeEventOptions: { enabled: handsFreeRef.current, intervalMillis: 250 },
+                // Cancels the speaker's output from the mic input so playback doesn't look like the user talking
+                iosVoiceProcessingEnabled: handsFreeRef.current,
+              });
             } catch (serr) {
-              console.warn('[Voice] native start error', serr);
+              voiceLog.warn('native start error', serr);
               setListening(false);
             }
             startingRef.current = false;
             return;
           }
         } catch (err) {
-          console.warn('[Voice] native SR unavailable (likely Expo Go):', (err as any)?.message || err);
+          voiceLog.warn('native SR unavailable (likely Expo Go):', (err as any)?.message || err);
         }
       }
 
@@ -407,12 +966,15 @@ export default function ChatScreen({ route, navigation }: any) {
         try {
           webFinalRef.current = '';
           if (webRecognitionRef.current) {
-            try { webRecognitionRef.current.continuous = handsFreeRef.current; } catch {}
+            try {
+              webRecognitionRef.current.continuous = handsFreeRef.current;
+              webRecognitionRef.current.lang = recognitionLanguage();
+            } catch {}
           }
           webRecognitionRef.current?.start();
           startingRef.current = false;
         } catch (err) {
-          console.warn('[Voice] web start error', err);
+          voiceLog.warn('web start error', err);
           setListening(false);
           startingRef.current = false;
         }
@@ -421,7 +983,7 @@ export default function ChatScreen({ route, navigation }: any) {
         startingRef.current = false;
       }
     } catch (err) {
-      console.warn('[Voice] startRecording error', err);
+      voiceLog.warn('startRecording error', err);
       setListening(false);
       startingRef.current = false;
     }
@@ -443,7 +1005,7 @@ export default function ChatScreen({ route, navigation }: any) {
             // Finalization handled in 'end' listener
           }
         } catch (err) {
-          console.warn('[Voice] native stop unavailable (likely Expo Go):', (err as any)?.message || err);
+          voiceLog.warn('native stop unavailable (likely Expo Go):', (err as any)?.message || err);
         }
       }
 
@@ -452,12 +1014,12 @@ export default function ChatScreen({ route, navigation }: any) {
           webRecognitionRef.current.stop();
           // onend will finalize
         } catch (err) {
-          console.warn('[Voice] web stop error', err);
+          voiceLog.warn('web stop error', err);
           setListening(false);
         }
       }
     } catch (err) {
-      console.warn('[Voice] stopRecording error', err);
+      voiceLog.warn('stopRecording error', err);
       setListening(false);
     } finally {
       startYRef.current = null;
@@ -466,6 +1028,65 @@ export default function ChatScreen({ route, navigation }: any) {
     }
   };
 
+  /** Stop listening without sending what was heard */
+  const cancelRecording = async () => {
+    try {
+      if (Platform.OS !== 'web') {
+        const SR: any = await import('expo-speech-recognition');
+        SR?.ExpoSpeechRecognitionModule?.abort?.();
+      } else {
+        webRecognitionRef.current?.abort?.();
+      }
+    } catch (err) {
+      voiceLog.warn('cancelRecording error', err);
+    }
+    nativeFinalRef.current = '';
+    webFinalRef.current = '';
+    setLiveTranscript('');
+    setListening(false);
+  };
+
+  useEffect(() => {
+    loopDriverRef.current = {
+      start: () => startRecording(undefined, true),
+      stop: stopRecordingAndHandle,
+      cancel: cancelRecording,
+      submit: (text) => voiceInputRef.current(text),
+    };
+  });
+
+  const attachFrom = async (from: 'camera' | 'library') => {
+    setAttaching(true);
+    try {
+      const images = await pickImages(from);
+      if (images.length) setPendingImages((prev) => [...prev, ...images]);
+    } catch (e: any) {
+      log.warn('Attaching image failed:', e?.message || e);
+      if (Platform.OS === 'web') window.alert(e?.message || 'Could not attach the image');
+      else Alert.alert('Could not attach image', e?.message || 'Unknown error');
+    } finally {
+      setAttaching(false);
+    }
+  };
+
+  // A photo taken off the message before sending isn't kept on disk
+  const removePendingImage = (image: ImageAttachment) => {
+    setPendingImages((prev) => prev.filter((i) => i.id !== image.id));
+    deleteAttachments([image]);
+  };
+
+  const handleAttach = () => {
+    // Browsers offer the camera from the file picker themselves
+    if (Platform.OS === 'web') {
+      attachFrom('library');
+      return;
+    }
+    Alert.alert('Attach Photo', undefined, [
+      { text: 'Take Photo', onPress: () => attachFrom('camera') },
+      { text: 'Choose from Library', onPress: () => attachFrom('library') },
+      { text: 'Cancel', style: 'cancel' },
+    ]);
+  };
 
   return (
     <KeyboardAvoidingView
@@ -474,23 +1095,103 @@ export default function ChatScreen({ route, navigation }: any) {
       keyboardVerticalOffset={headerHeight}
     >
       <View style={{ flex: 1 }}>
+        {!!sessionStore.saveError && (
+          <View style={styles.saveError} accessibilityRole="alert">
+            <Text style={styles.saveErrorText}>
+              {Platform.OS === 'web'
+                ? "⚠️ Chats can't be saved, probably because the browser's storage is full. Delete chats with photos to make room."
+                : "⚠️ Chats can't be saved right now. New messages will be lost when the app closes."}
+            </Text>
+          </View>
+        )}
         <ScrollView
           style={{ flex: 1, padding: spacing.lg, backgroundColor: theme.colors.background }}
           contentContainerStyle={{ paddingBottom: insets.bottom }}
           keyboardShouldPersistTaps="handled"
           contentInsetAdjustmentBehavior="automatic"
         >
-          {messages.map((m, i) => (
-            <View key={i} style={[styles.msg, m.role === 'user' ? styles.user : styles.assistant]}>
+          {messages.filter((m) => m.role !== 'tool').map((m) => (
+            <View key={m.id} style={[styles.msg, m.role === 'user' ? styles.user : styles.assistant]}>
               <Text style={styles.role}>{m.role}</Text>
-              {m.role === 'assistant' && (!m.content || m.content.length === 0) ? (
+              {!!m.agentSteps?.length && (
+                <AgentTimeline steps={m.agentSteps} active={m.id === activeAssistantId} />
+              )}
+              {m.toolCalls?.map((call) => (
+                <ToolCallCard key={call.id} call={call} result={toolResults[call.id]} />
+              ))}
+              {m.role === 'assistant' && !m.content && !m.status && !m.toolCalls?.length && !m.agentSteps?.length ? (
                 <View style={{ flexDirection: 'row', alignItems: 'center', gap: 8 }}>
                   <ActivityIndicator size="small" color={theme.colors.foreground} />
                   <Text style={{ color: theme.colors.foreground }}>Assistant is thinking</Text>
                 </View>
-              ) : (
+              ) : !!m.content && (
                 <Text style={{ color: theme.colors.foreground }}>{m.content}</Text>
               )}
+              {!!m.attachments?.length && (
+                <ImageThumbnails images={m.attachments} onPress={setPreviewImage} />
+              )}
+              {m.status === 'error' && m.error && (
+                <ErrorBubble
+                  error={m.error}
+                  onRetry={m.id === messages[messages.length - 1]?.id ? () => retryFailed(m.id) : undefined}
+                  onOpenSettings={() => navigation.navigate('Settings')}
+                  onChooseModel={() => setShowModelPicker(true)}
+                  onNewChat={startNewChat}
+                />
+              )}
+              {m.status === 'stopped' && (
+                <Text style={styles.stoppedLabel}>⏹ Stopped</Text>
+              )}
+            </View>
+          ))}
+          {queued.filter((q) => q.id !== outbox.sendingId).map((q) => (
+            <View key={q.id} style={[styles.msg, styles.user, styles.queued]}>
+              <Text style={styles.role}>
+                {q.source === 'voice' ? '🎙️ ' : ''}queued{online ? '' : ' · waiting for connection'}
+              </Text>
+              {editingQueued?.id === q.id ? (
+                <TextInput
+                  value={editingQueued.text}
+                  onChangeText={(text) => setEditingQueued({ id: q.id, text })}
+                  style={styles.input}
+                  multiline
+                  autoFocus
+                />
+              ) : !!q.text && (
+                <Text style={{ color: theme.colors.foreground }}>{q.text}</Text>
+              )}
+              {!!q.attachments?.length && (
+                <ImageThumbnails images={q.attachments} size={64} onPress={setPreviewImage} />
+              )}
+              <View style={styles.queuedActions}>
+                {editingQueued?.id === q.id ? (
+                  <>
+                    <TouchableOpacity onPress={saveQueuedEdit} accessibilityRole="button">
+                      <Text style={styles.queuedAction}>Save</Text>
+                    </TouchableOpacity>
+                    <TouchableOpacity onPress={() => setEditingQueued(null)} accessibilityRole="button">
+                      <Text style={styles.queuedAction}>Cancel</Text>
+                    </TouchableOpacity>
+                  </>
+                ) : (
+                  <>
+                    <TouchableOpacity
+                      onPress={() => setEditingQueued({ id: q.id, text: q.text })}
+                      accessibilityRole="button"
+                      accessibilityLabel="Edit queued message"
+                    >
+                      <Text style={styles.queuedAction}>Edit</Text>
+                    </TouchableOpacity>
+                    <TouchableOpacity
+                      onPress={() => outbox.discard(q.id)}
+                      accessibilityRole="button"
+                      accessibilityLabel="Discard queued message"
+                    >
+                      <Text style={[styles.queuedAction, { color: theme.colors.danger }]}>Discard</Text>
+                    </TouchableOpacity>
+                  </>
+                )}
+              </View>
             </View>
           ))}
           {debugInfo && (
@@ -502,7 +1203,7 @@ export default function ChatScreen({ route, navigation }: any) {
         {listening && (
           <View style={[styles.overlay, { bottom: 72 + insets.bottom }]} pointerEvents="none">
             <Text style={styles.overlayText}>
-              {handsFree ? 'Listening...' : (willCancel ? 'Release to edit' : 'Release to send')}
+              {handsFree ? LOOP_STATUS[loopState === 'idle' ? 'listening' : loopState] : (willCancel ? 'Release to edit' : 'Release to send')}
             </Text>
             {!!liveTranscript && (
               <Text style={styles.overlayTranscript} numberOfLines={2}>
@@ -511,10 +1212,41 @@ export default function ChatScreen({ route, navigation }: any) {
             )}
           </View>
         )}
+        {(speech.speaking || speech.pending > 0) && (
+          <View style={styles.speechBar}>
+            <Text style={styles.speechStatus}>
+              {speech.paused ? '⏸ Paused' : '🔊 Speaking'}{speech.pending > 0 ? ` · ${speech.pending} more` : ''}
+            </Text>
+            <TouchableOpacity
+              onPress={() => (speech.paused ? speechQueue.resume() : speechQueue.pause())}
+              accessibilityRole="button"
+              accessibilityLabel={speech.paused ? 'Resume speaking' : 'Pause speaking'}
+            >
+              <Text style={styles.speechAction}>{speech.paused ? 'Resume' : 'Pause'}</Text>
+            </TouchableOpacity>
+            <TouchableOpacity onPress={() => speechQueue.skip()} accessibilityRole="button" accessibilityLabel="Skip sentence">
+              <Text style={styles.speechAction}>Skip</Text>
+            </TouchableOpacity>
+            <TouchableOpacity onPress={() => speechQueue.interrupt()} accessibilityRole="button" accessibilityLabel="Stop speaking">
+              <Text style={[styles.speechAction, { color: theme.colors.danger }]}>Stop speaking</Text>
+            </TouchableOpacity>
+          </View>
+        )}
+        {(pendingImages.length > 0 || attaching) && (
+          <View style={styles.pendingImages}>
+            <ImageThumbnails
+              images={pendingImages}
+              size={56}
+              onPress={setPreviewImage}
+              onRemove={removePendingImage}
+            />
+            {attaching && <ActivityIndicator size="small" color={theme.colors.foreground} />}
+          </View>
+        )}
         <View style={[styles.inputRow, { paddingBottom: 12 + insets.bottom }]}>
           <View style={styles.micWrapper}>
             <TouchableOpacity
-              style={[styles.mic, listening && styles.micOn]}
+              style={[styles.mic, (listening || loopState !== 'idle') && styles.micOn]}
               activeOpacity={0.7}
               delayPressIn={0}
               onPressIn={!handsFree ? (e: GestureResponderEvent) => {
@@ -532,14 +1264,25 @@ export default function ChatScreen({ route, navigation }: any) {
                 }
               } : undefined}
               onPress={handsFree ? () => {
-                if (!listening) startRecording(); else stopRecordingAndHandle();
+                if (loopState === 'idle') loop.start(); else loop.stop();
               } : undefined}
             >
-              <Text style={{ color: listening ? theme.colors.primaryForeground : theme.colors.foreground }}>
-                {handsFree ? (listening ? 'Listening… Tap to Stop' : 'Tap to Talk') : (listening ? 'Recording…' : 'Hold to Talk')}
+              <Text style={{ color: listening || loopState !== 'idle' ? theme.colors.primaryForeground : theme.colors.foreground }}>
+                {handsFree
+                  ? (loopState === 'idle' ? LOOP_STATUS.idle : `${LOOP_STATUS[loopState]} Tap to Stop`)
+                  : (listening ? 'Recording…' : 'Hold to Talk')}
               </Text>
             </TouchableOpacity>
           </View>
+          <TouchableOpacity
+            style={styles.attachButton}
+            onPress={handleAttach}
+            disabled={attaching}
+            accessibilityRole="button"
+            accessibilityLabel="Attach a photo"
+          >
+            <Text style={{ fontSize: 18 }}>📷</Text>
+          </TouchableOpacity>
           <TextInput
             style={styles.input}
             value={input}
@@ -548,11 +1291,52 @@ export default function ChatScreen({ route, navigation }: any) {
             placeholderTextColor={theme.colors.mutedForeground}
             multiline
           />
-          <TouchableOpacity style={styles.sendButton} onPress={() => send(input)}>
-            <Text style={styles.sendButtonText}>Send</Text>
-          </TouchableOpacity>
+          {responding ? (
+            <TouchableOpacity
+              style={[styles.sendButton, styles.stopButton]}
+              onPress={stopResponse}
+              accessibilityRole="button"
+              accessibilityLabel="Stop generating response"
+            >
+              <Text style={styles.stopButtonText}>Stop</Text>
+            </TouchableOpacity>
+          ) : (
+            <TouchableOpacity style={styles.sendButton} onPress={() => send(input)}>
+              <Text style={styles.sendButtonText}>{connection.status === 'unreachable' || queued.length > 0 ? 'Queue' : 'Send'}</Text>
+            </TouchableOpacity>
+          )}
         </View>
       </View>
+      <Modal visible={!!previewImage} transparent animationType="fade" onRequestClose={() => setPreviewImage(null)}>
+        <Pressable style={styles.imagePreview} onPress={() => setPreviewImage(null)} accessibilityLabel="Close photo">
+          {previewImage && (
+            <Image source={{ uri: previewImage.uri }} style={styles.imagePreviewImage} resizeMode="contain" />
+          )}
+        </Pressable>
+      </Modal>
+      <ModelPicker
+        visible={showModelPicker}
+        server={serverConnection(config)}
+        value={activeModel}
+        onSelect={selectModel}
+        onClose={() => setShowModelPicker(false)}
+      />
+      <ChatSettingsSheet
+        visible={showChatSettings}
+        title="Chat Settings"
+        value={sessionSettings}
+        defaults={config.chatDefaults ?? {}}
+        onSave={saveChatSettings}
+        onClose={() => setShowChatSettings(false)}
+      />
+      <ProfileSwitcher
+        visible={showProfileSwitcher}
+        profiles={config.profiles}
+        activeProfileId={config.activeProfileId}
+        onSelect={selectProfile}
+        onClose={() => setShowProfileSwitcher(false)}
+        onManage={() => navigation.navigate('Settings')}
+      />
     </KeyboardAvoidingView>
   );
 }
@@ -594,6 +1378,48 @@ function createStyles(theme: Theme) {
       flex: 1,
       maxHeight: 120,
     },
+    speechBar: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: spacing.md,
+      paddingHorizontal: spacing.md,
+      paddingVertical: spacing.sm,
+      borderTopWidth: theme.hairline,
+      borderColor: theme.colors.border,
+      backgroundColor: theme.colors.card,
+    },
+    speechStatus: {
+      ...theme.typography.caption,
+      flex: 1,
+    },
+    speechAction: {
+      ...theme.typography.caption,
+      fontWeight: '600',
+      color: theme.colors.foreground,
+    },
+    attachButton: {
+      padding: spacing.xs,
+    },
+    pendingImages: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: spacing.sm,
+      paddingHorizontal: spacing.md,
+      paddingTop: spacing.sm,
+      borderTopWidth: theme.hairline,
+      borderColor: theme.colors.border,
+      backgroundColor: theme.colors.card,
+    },
+    imagePreview: {
+      flex: 1,
+      backgroundColor: 'rgba(0,0,0,0.9)',
+      alignItems: 'center',
+      justifyContent: 'center',
+    },
+    imagePreviewImage: {
+      width: '100%',
+      height: '100%',
+    },
     micWrapper: {
       borderRadius: radius.lg,
     },
@@ -619,6 +1445,46 @@ function createStyles(theme: Theme) {
       color: theme.colors.primaryForeground,
       fontWeight: '600',
     },
+    stopButton: {
+      backgroundColor: theme.colors.danger,
+    },
+    stopButtonText: {
+      color: '#FFFFFF',
+      fontWeight: '600',
+    },
+    queued: {
+      opacity: 0.75,
+      borderWidth: 1,
+      borderStyle: 'dashed',
+      borderColor: theme.colors.mutedForeground,
+    },
+    queuedActions: {
+      flexDirection: 'row',
+      justifyContent: 'flex-end',
+      gap: spacing.md,
+      marginTop: spacing.xs,
+    },
+    queuedAction: {
+      ...theme.typography.caption,
+      fontWeight: '600',
+    },
+    stoppedLabel: {
+      ...theme.typography.caption,
+      marginTop: spacing.xs,
+      fontStyle: 'italic',
+    },
+    saveError: {
+      backgroundColor: theme.colors.muted,
+      padding: spacing.sm,
+      margin: spacing.sm,
+      borderRadius: radius.lg,
+      borderLeftWidth: 4,
+      borderLeftColor: theme.colors.destructive,
+    },
+    saveErrorText: {
+      ...theme.typography.caption,
+      color: theme.colors.foreground,
+    },
     debugInfo: {
       backgroundColor: theme.colors.muted,
       padding: spacing.sm,
@@ -0,0 +1,218 @@
+/**
+ * Diagnostics Screen
+ * Shows recent (already redacted) log entries, filterable by subsystem,
+ * and exports them as a text bundle for bug reports.
+ */
+
+import { useEffect, useMemo, useState } from 'react';
+import { View, Text, FlatList, TouchableOpacity, StyleSheet, Pressable, Share, Platform, Alert } from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { useTheme } from '../ui/ThemeProvider';
+import { spacing, radius, Theme } from '../ui/theme';
+import {
+  LogEntry,
+  LogLevel,
+  LogSubsystem,
+  clearLogs,
+  exportLogBundle,
+  getLogs,
+  loadLogs,
+  subscribeLogs,
+} from '../lib/logger';
+
+const FILTERS: { label: string; value: LogSubsystem | null }[] = [
+  { label: 'All', value: null },
+  { label: 'Client', value: 'client' },
+  { label: 'Voice', value: 'voice' },
+  { label: 'Config', value: 'config' },
+  { label: 'Chat', value: 'chat' },
+];
+
+export default function DiagnosticsScreen() {
+  const { theme } = useTheme();
+  const insets = useSafeAreaInsets();
+  const styles = useMemo(() => createStyles(theme), [theme]);
+  const [entries, setEntries] = useState<LogEntry[]>(getLogs());
+  const [filter, setFilter] = useState<LogSubsystem | null>(null);
+
+  useEffect(() => {
+    loadLogs().then(setEntries);
+    return subscribeLogs(setEntries);
+  }, []);
+
+  // Newest first
+  const visible = useMemo(
+    () => (filter ? entries.filter((e) => e.subsystem === filter) : entries).slice().reverse(),
+    [entries, filter],
+  );
+
+  const levelColor = (level: LogLevel) => {
+    if (level === 'error') return theme.colors.destructive;
+    if (level === 'warn') return '#D97706';
+    return theme.colors.mutedForeground;
+  };
+
+  const handleExport = async () => {
+    const bundle = exportLogBundle(filter ?? undefined);
+    if (Platform.OS === 'web') {
+      try {
+        await navigator.clipboard.writeText(bundle);
+        window.alert('Diagnostics copied to clipboard');
+      } catch {
+        window.alert('Could not copy diagnostics to clipboard');
+      }
+      return;
+    }
+    try {
+      await Share.share({ title: 'SpeakMCP diagnostics', message: bundle });
+    } catch (e: any) {
+      Alert.alert('Export failed', e?.message || 'Could not share diagnostics');
+    }
+  };
+
+  const handleClear = () => {
+    if (Platform.OS === 'web') {
+      if (window.confirm('Clear all diagnostics entries?')) clearLogs();
+      return;
+    }
+    Alert.alert('Clear Logs', 'Clear all diagnostics entries?', [
+      { text: 'Cancel', style: 'cancel' },
+      { text: 'Clear', style: 'destructive', onPress: () => { clearLogs(); } },
+    ]);
+  };
+
+  const renderEntry = ({ item }: { item: LogEntry }) => (
+    <View style={styles.entry}>
+      <Text style={styles.entryMeta}>
+        <Text style={{ color: levelColor(item.level), fontWeight: '600' }}>{item.level.toUpperCase()}</Text>
+        {'  '}{new Date(item.timestamp).toLocaleTimeString()}  [{item.subsystem}]
+      </Text>
+      <Text style={styles.entryMessage} selectable>{item.message}</Text>
+    </View>
+  );
+
+  return (
+    <View style={[styles.container, { paddingBottom: insets.bottom }]}>
+      <View style={styles.filters}>
+        {FILTERS.map((f) => (
+          <Pressable
+            key={f.label}
+            style={[styles.filter, filter === f.value && styles.filterActive]}
+            onPress={() => setFilter(f.value)}
+          >
+            <Text style={[styles.filterText, filter === f.value && styles.filterTextActive]}>{f.label}</Text>
+          </Pressable>
+        ))}
+      </View>
+
+      <FlatList
+        data={visible}
+        renderItem={renderEntry}
+        keyExtractor={(item, idx) => `${item.timestamp}_${idx}`}
+        contentContainerStyle={visible.length === 0 ? styles.emptyList : styles.list}
+        ListEmptyComponent={<Text style={styles.empty}>No log entries</Text>}
+      />
+
+      <View style={styles.actions}>
+        <TouchableOpacity style={styles.clearButton} onPress={handleClear}>
+          <Text style={styles.clearButtonText}>Clear</Text>
+        </TouchableOpacity>
+        <TouchableOpacity style={styles.exportButton} onPress={handleExport}>
+          <Text style={styles.exportButtonText}>Export Redacted Logs</Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+}
+
+// Create dynamic styles based on theme
+function createStyles(theme: Theme) {
+  return StyleSheet.create({
+    container: {
+      flex: 1,
+      backgroundColor: theme.colors.background,
+    },
+    filters: {
+      flexDirection: 'row',
+      flexWrap: 'wrap',
+      gap: spacing.sm,
+      padding: spacing.md,
+      borderBottomWidth: theme.hairline,
+      borderBottomColor: theme.colors.border,
+    },
+    filter: {
+      paddingHorizontal: spacing.md,
+      paddingVertical: spacing.xs,
+      borderRadius: radius.full,
+      borderWidth: 1,
+      borderColor: theme.colors.border,
+    },
+    filterActive: {
+      backgroundColor: theme.colors.primary,
+      borderColor: theme.colors.primary,
+    },
+    filterText: {
+      fontSize: 14,
+      color: theme.colors.foreground,
+    },
+    filterTextActive: {
+      color: theme.colors.primaryForeground,
+      fontWeight: '600',
+    },
+    list: {
+      padding: spacing.md,
+    },
+    emptyList: {
+      flex: 1,
+      justifyContent: 'center',
+      alignItems: 'center',
+    },
+    empty: {
+      ...theme.typography.bodyMuted,
+    },
+    entry: {
+      paddingVertical: spacing.sm,
+      borderBottomWidth: theme.hairline,
+      borderBottomColor: theme.colors.border,
+    },
+    entryMeta: {
+      ...theme.typography.caption,
+      marginBottom: 2,
+    },
+    entryMessage: {
+      fontSize: 12,
+      color: theme.colors.foreground,
+      fontFamily: Platform.OS === 'ios' ? 'Menlo' : 'monospace',
+    },
+    actions: {
+      flexDirection: 'row',
+      gap: spacing.sm,
+      padding: spacing.md,
+      borderTopWidth: theme.hairline,
+      borderTopColor: theme.colors.border,
+    },
+    clearButton: {
+      paddingHorizontal: spacing.lg,
+      paddingVertical: spacing.md,
+      borderRadius: radius.lg,
+      borderWidth: 1,
+      borderColor: theme.colors.border,
+      alignItems: 'center',
+    },
+    clearButtonText: {
+      color: theme.colors.destructive,
+      fontWeight: '600',
+    },
+    exportButton: {
+      flex: 1,
+      backgroundColor: theme.colors.primary,
+      paddingVertical: spacing.md,
+      borderRadius: radius.lg,
+      alignItems: 'center',
+    },
+    exportButtonText: {
+      color: theme.colors.primaryForeground,
+      fontWeight: '600',
+    },
+  });
+}
@@ -0,0 +1,475 @@
+/**
+ * Personas Screen
+ * Library of reusable system prompts with their model and voice.
+ * Personas are shared between devices by exporting them as JSON and pasting that JSON into Import.
+ */
+
+import { useMemo, useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  FlatList,
+  TouchableOpacity,
+  StyleSheet,
+  Modal,
+  ScrollView,
+  Share,
+  Platform,
+  Alert,
+} from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import * as Speech from 'expo-speech';
+import { useTheme } from '../ui/ThemeProvider';
+import { spacing, radius, Theme } from '../ui/theme';
+import { ModelPicker } from '../ui/ModelPicker';
+import { VoicePicker } from '../ui/VoicePicker';
+import { deviceLanguage } from '../lib/voices';
+import { useConfigContext } from '../store/config';
+import { Persona, PersonaInput, exportPersonas, usePersonaContext } from '../store/personas';
+import { serverConnection } from '../lib/openaiClient';
+
+type EditorState = {
+  /** Persona being edited; unset when creating a new one */
+  id?: string;
+  name: string;
+  systemPrompt: string;
+  model: string;
+  voice: string;
+  rate: string;
+};
+
+const EMPTY_EDITOR: EditorState = { name: '', systemPrompt: '', model: '', voice: '', rate: '' };
+
+function toEditor(p: Persona): EditorState {
+  return {
+    id: p.id,
+    name: p.name,
+    systemPrompt: p.systemPrompt,
+    model: p.model ?? '',
+    voice: p.voice ?? '',
+    rate: p.rate?.toString() ?? '',
+  };
+}
+
+export default function PersonasScreen() {
+  const { theme } = useTheme();
+  const insets = useSafeAreaInsets();
+  const styles = useMemo(() => createStyles(theme), [theme]);
+  const { config } = useConfigContext();
+  const { personas, createPersona, updatePersona, deletePersona, importPersonas } = usePersonaContext();
+  const [editor, setEditor] = useState<EditorState | null>(null);
+  const [showModelPicker, setShowModelPicker] = useState(false);
+  const [importText, setImportText] = useState<string | null>(null);
+  const [importError, setImportError] = useState<string | null>(null);
+
+  const rate = editor?.rate.trim() ? Number(editor.rate.trim()) : undefined;
+  const editorError = !editor
+    ? null
+    : !editor.name.trim()
+      ? 'Give the persona a name'
+      : !editor.systemPrompt.trim()
+        ? 'Add a system prompt'
+        : rate !== undefined && !(rate >= 0.1 && rate <= 4)
+          ? 'Speaking rate must be between 0.1 and 4'
+          : null;
+
+  const handleSave = () => {
+    if (!editor || editorError) return;
+    const input: PersonaInput = {
+      name: editor.name.trim(),
+      systemPrompt: editor.systemPrompt,
+      model: editor.model.trim() || undefined,
+      voice: editor.voice.trim() || undefined,
+      rate,
+    };
+    if (editor.id) updatePersona(editor.id, input);
+    else createPersona(input);
+    setEditor(null);
+  };
+
+  const handlePreview = () => {
+    if (!editor) return;
+    Speech.stop();
+    Speech.speak(`Hi, I'm ${editor.name.trim() || 'your assistant'}.`, {
+      language: deviceLanguage(),
+      voice: editor.voice.trim() || undefined,
+      rate,
+    });
+  };
+
+  const handleDelete = (persona: Persona) => {
+    if (Platform.OS === 'web') {
+      if (window.confirm(`Delete persona "${persona.name}"?`)) deletePersona(persona.id);
+      return;
+    }
+    Alert.alert('Delete Persona', `Are you sure you want to delete "${persona.name}"?`, [
+      { text: 'Cancel', style: 'cancel' },
+      { text: 'Delete', style: 'destructive', onPress: () => deletePersona(persona.id) },
+    ]);
+  };
+
+  const handleExport = async () => {
+    const json = exportPersonas(personas);
+    if (Platform.OS === 'web') {
+      try {
+        await navigator.clipboard.writeText(json);
+        window.alert('Personas copied to clipboard');
+      } catch {
+        window.alert('Could not copy personas to clipboard');
+      }
+      return;
+    }
+    try {
+      await Share.share({ title: 'SpeakMCP personas', message: json });
+    } catch (e: any) {
+      Alert.alert('Export failed', e?.message || 'Could not share personas');
+    }
+  };
+
+  const handleImport = () => {
+    if (importText === null) return;
+    try {
+      const count = importPersonas(importText);
+      setImportText(null);
+      setImportError(null);
+      const message = `Imported ${count} persona${count !== 1 ? 's' : ''}`;
+      if (Platform.OS === 'web') window.alert(message);
+      else Alert.alert('Import Complete', message);
+    } catch (e: any) {
+      setImportError(e?.message || 'Could not import personas');
+    }
+  };
+
+  const renderPersona = ({ item }: { item: Persona }) => (
+    <TouchableOpacity
+      style={styles.item}
+      onPress={() => setEditor(toEditor(item))}
+      onLongPress={() => handleDelete(item)}
+      accessibilityRole="button"
+      accessibilityLabel={`Edit persona ${item.name}. Long press to delete`}
+    >
+      <Text style={styles.itemTitle}>{item.name}</Text>
+      <Text style={styles.itemPrompt} numberOfLines={2}>{item.systemPrompt}</Text>
+      <Text style={styles.itemMeta}>
+        {[item.model, item.voice && `voice ${item.voice}`, item.rate !== undefined && `rate ${item.rate}`]
+          .filter(Boolean)
+          .join(' · ') || 'Profile model and default voice'}
+      </Text>
+    </TouchableOpacity>
+  );
+
+  return (
+    <View style={[styles.container, { paddingBottom: insets.bottom }]}>
+      <FlatList
+        data={personas}
+        renderItem={renderPersona}
+        keyExtractor={(item) => item.id}
+        contentContainerStyle={personas.length === 0 ? styles.emptyList : styles.list}
+        ListEmptyComponent={
+          <View style={styles.emptyState}>
+            <Text style={styles.emptyTitle}>No Personas Yet</Text>
+            <Text style={styles.emptySubtitle}>
+              Save a system prompt with its model and voice, then start chats with it from "New chat with…"
+            </Text>
+          </View>
+        }
+      />
+
+      <View style={styles.actions}>
+        <TouchableOpacity style={styles.secondaryButton} onPress={() => setImportText('')}>
+          <Text style={styles.secondaryButtonText}>Import</Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={[styles.secondaryButton, personas.length === 0 && styles.disabled]}
+          onPress={handleExport}
+          disabled={personas.length === 0}
+        >
+          <Text style={styles.secondaryButtonText}>Export</Text>
+        </TouchableOpacity>
+        <TouchableOpacity style={styles.primaryButton} onPress={() => setEditor(EMPTY_EDITOR)}>
+          <Text style={styles.primaryButtonText}>+ New Persona</Text>
+        </TouchableOpacity>
+      </View>
+
+      <Modal visible={!!editor} animationType="slide" presentationStyle="pageSheet" onRequestClose={() => setEditor(null)}>
+        <ScrollView
+          style={styles.modal}
+          contentContainerStyle={[styles.modalContent, { paddingBottom: insets.bottom + spacing.lg }]}
+          keyboardShouldPersistTaps="handled"
+        >
+          <Text style={styles.modalTitle}>{editor?.id ? 'Edit Persona' : 'New Persona'}</Text>
+
+          <Text style={styles.label}>Name</Text>
+          <TextInput
+            style={styles.input}
+            value={editor?.name ?? ''}
+            onChangeText={(t) => setEditor((prev) => prev && { ...prev, name: t })}
+            placeholder="e.g. Driving assistant"
+            placeholderTextColor={theme.colors.mutedForeground}
+          />
+
+          <Text style={styles.label}>System Prompt</Text>
+          <TextInput
+            style={[styles.input, styles.multiline]}
+            value={editor?.systemPrompt ?? ''}
+            onChangeText={(t) => setEditor((prev) => prev && { ...prev, systemPrompt: t })}
+            placeholder="e.g. Keep answers under 3 sentences; I'm driving."
+            placeholderTextColor={theme.colors.mutedForeground}
+            multiline
+          />
+
+          <Text style={styles.label}>Model</Text>
+          <View style={styles.row}>
+            <TouchableOpacity
+              style={[styles.input, styles.pickerField]}
+              onPress={() => setShowModelPicker(true)}
+              accessibilityRole="button"
+              accessibilityLabel={`Model: ${editor?.model || 'profile default'}. Tap to choose`}
+            >
+              <Text style={editor?.model ? styles.pickerFieldText : styles.pickerFieldPlaceholder} numberOfLines={1}>
+                {editor?.model || `Profile default (${config.model})`}
+              </Text>
+              <Text style={styles.pickerFieldText}>▾</Text>
+            </TouchableOpacity>
+            {!!editor?.model && (
+              <TouchableOpacity onPress={() => setEditor((prev) => prev && { ...prev, model: '' })}>
+                <Text style={styles.linkText}>Clear</Text>
+              </TouchableOpacity>
+            )}
+          </View>
+
+          <Text style={styles.label}>Voice</Text>
+          <VoicePicker
+            value={editor?.voice || undefined}
+            onChange={(voice) => setEditor((prev) => prev && { ...prev, voice: voice ?? '' })}
+          />
+
+          <Text style={styles.label}>Speaking Rate</Text>
+          <TextInput
+            style={styles.input}
+            value={editor?.rate ?? ''}
+            onChangeText={(t) => setEditor((prev) => prev && { ...prev, rate: t })}
+            placeholder="1 (normal)"
+            placeholderTextColor={theme.colors.mutedForeground}
+            keyboardType="decimal-pad"
+          />
+          <TouchableOpacity onPress={handlePreview} accessibilityRole="button">
+            <Text style={styles.linkText}>🔊 Preview voice</Text>
+          </TouchableOpacity>
+
+          {!!editorError && <Text style={styles.error}>{editorError}</Text>}
+
+          <View style={styles.modalActions}>
+            <TouchableOpacity style={styles.secondaryButton} onPress={() => setEditor(null)}>
+              <Text style={styles.secondaryButtonText}>Cancel</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.primaryButton, !!editorError && styles.disabled]}
+              onPress={handleSave}
+              disabled={!!editorError}
+            >
+              <Text style={styles.primaryButtonText}>Save</Text>
+            </TouchableOpacity>
+          </View>
+        </ScrollView>
+
+        <ModelPicker
+          visible={showModelPicker}
+          server={serverConnection(config)}
+          value={editor?.model || undefined}
+          onSelect={(model) => setEditor((prev) => prev && { ...prev, model })}
+          onClose={() => setShowModelPicker(false)}
+        />
+      </Modal>
+
+      <Modal visible={importText !== null} animationType="slide" presentationStyle="pageSheet" onRequestClose={() => setImportText(null)}>
+        <ScrollView
+          style={styles.modal}
+          contentContainerStyle={[styles.modalContent, { paddingBottom: insets.bottom + spacing.lg }]}
+          keyboardShouldPersistTaps="handled"
+        >
+          <Text style={styles.modalTitle}>Import Personas</Text>
+          <Text style={styles.hint}>
+            Paste JSON exported from SpeakMCP. Personas with the same name as an existing one replace it.
+          </Text>
+          <TextInput
+            style={[styles.input, styles.importInput]}
+            value={importText ?? ''}
+            onChangeText={(t) => {
+              setImportText(t);
+              setImportError(null);
+            }}
+            placeholder='{"version": 1, "personas": [...]}'
+            placeholderTextColor={theme.colors.mutedForeground}
+            autoCapitalize="none"
+            autoCorrect={false}
+            multiline
+          />
+          {!!importError && <Text style={styles.error}>{importError}</Text>}
+          <View style={styles.modalActions}>
+            <TouchableOpacity style={styles.secondaryButton} onPress={() => setImportText(null)}>
+              <Text style={styles.secondaryButtonText}>Cancel</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.primaryButton, !importText?.trim() && styles.disabled]}
+              onPress={handleImport}
+              disabled={!importText?.trim()}
+            >
+              <Text style={styles.primaryButtonText}>Import</Text>
+            </TouchableOpacity>
+          </View>
+        </ScrollView>
+      </Modal>
+    </View>
+  );
+}
+
+// Create dynamic styles based on theme
+function createStyles(theme: Theme) {
+  return StyleSheet.create({
+    container: {
+      flex: 1,
+      backgroundColor: theme.colors.background,
+    },
+    list: {
+      padding: spacing.md,
+      gap: spacing.sm,
+    },
+    emptyList: {
+      flex: 1,
+      justifyContent: 'center',
+      alignItems: 'center',
+    },
+    emptyState: {
+      alignItems: 'center',
+      padding: spacing.xl,
+    },
+    emptyTitle: {
+      ...theme.typography.h2,
+      marginBottom: spacing.sm,
+    },
+    emptySubtitle: {
+      ...theme.typography.bodyMuted,
+      textAlign: 'center',
+    },
+    item: {
+      padding: spacing.md,
+      borderRadius: radius.lg,
+      borderWidth: 1,
+      borderColor: theme.colors.border,
+      backgroundColor: theme.colors.card,
+      gap: spacing.xs,
+    },
+    itemTitle: {
+      ...theme.typography.body,
+      fontWeight: '600',
+    },
+    itemPrompt: {
+      ...theme.typography.bodyMuted,
+    },
+    itemMeta: {
+      ...theme.typography.caption,
+    },
+    actions: {
+      flexDirection: 'row',
+      gap: spacing.sm,
+      padding: spacing.md,
+      borderTopWidth: theme.hairline,
+      borderTopColor: theme.colors.border,
+    },
+    secondaryButton: {
+      paddingHorizontal: spacing.lg,
+      paddingVertical: spacing.md,
+      borderRadius: radius.lg,
+      borderWidth: 1,
+      borderColor: theme.colors.border,
+      alignItems: 'center',
+    },
+    secondaryButtonText: {
+      color: theme.colors.foreground,
+      fontWeight: '600',
+    },
+    primaryButton: {
+      flex: 1,
+      backgroundColor: theme.colors.primary,
+      paddingVertical: spacing.md,
+      borderRadius: radius.lg,
+      alignItems: 'center',
+    },
+    primaryButtonText: {
+      color: theme.colors.primaryForeground,
+      fontWeight: '600',
+    },
+    disabled: {
+      opacity: 0.5,
+    },
+    modal: {
+      flex: 1,
+      backgroundColor: theme.colors.background,
+    },
+    modalContent: {
+      padding: spacing.lg,
+      gap: spacing.sm,
+    },
+    modalTitle: {
+      ...theme.typography.h2,
+      marginBottom: spacing.sm,
+    },
+    label: {
+      ...theme.typography.label,
+      marginTop: spacing.sm,
+    },
+    input: {
+      ...theme.input,
+    },
+    multiline: {
+      minHeight: 120,
+      textAlignVertical: 'top',
+    },
+    importInput: {
+      minHeight: 200,
+      textAlignVertical: 'top',
+      fontFamily: Platform.OS === 'ios' ? 'Menlo' : 'monospace',
+      fontSize: 12,
+    },
+    row: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: spacing.sm,
+    },
+    pickerField: {
+      flex: 1,
+      flexDirection: 'row',
+      alignItems: 'center',
+      justifyContent: 'space-between',
+    },
+    pickerFieldText: {
+      color: theme.colors.foreground,
+      fontSize: 16,
+      flexShrink: 1,
+    },
+    pickerFieldPlaceholder: {
+      color: theme.colors.mutedForeground,
+      fontSize: 16,
+      flexShrink: 1,
+    },
+    linkText: {
+      ...theme.typography.label,
+      color: theme.colors.primary,
+      paddingVertical: spacing.xs,
+    },
+    hint: {
+      ...theme.typography.caption,
+    },
+    error: {
+      ...theme.typography.caption,
+      color: theme.colors.destructive,
+    },
+    modalActions: {
+      flexDirection: 'row',
+      gap: spacing.sm,
+      marginTop: spacing.md,
+    },
+  });
+}
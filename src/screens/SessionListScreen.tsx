@@ -2,34 +2,18 @@
  * Session List Screen
  * Displays all chat sessions and allows creating/selecting/deleting sessions
  * Adapted from SpeakMCP/src/renderer/src/pages/sessions.tsx patterns
- *
- * NOTE: This screen is not yet integrated - sessions store needs to be implemented
  */
 
-import { useLayoutEffect, useMemo } from 'react';
+import { useLayoutEffect, useMemo, useState } from 'react';
 import { View, Text, FlatList, TouchableOpacity, StyleSheet, Alert, Platform } from 'react-native';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { useTheme } from '../ui/ThemeProvider';
 import { spacing, radius, Theme } from '../ui/theme';
-
-// Placeholder types until sessions store is implemented
-interface SessionListItem {
-  id: string;
-  title: string;
-  preview: string;
-  messageCount: number;
-  updatedAt: number;
-}
-
-// Placeholder session context - will be replaced with actual store
-const useSessionContext = () => ({
-  getSessionList: () => [] as SessionListItem[],
-  currentSessionId: null as string | null,
-  createNewSession: () => {},
-  setCurrentSession: (id: string) => {},
-  deleteSession: (id: string) => {},
-  clearAllSessions: () => {},
-});
+import { useSessionContext } from '../store/sessions';
+import { useOutboxContext } from '../store/outbox';
+import { Persona, personaChatSettings, usePersonaContext } from '../store/personas';
+import { PersonaPicker } from '../ui/PersonaPicker';
+import { SessionListItem } from '../types/session';
 
 interface Props {
   navigation: any;
@@ -56,10 +40,15 @@ export default function SessionListScreen({ navigation }: Props) {
   }, [navigation, theme]);
   const insets = useSafeAreaInsets();
   const sessionStore = useSessionContext();
+  const outbox = useOutboxContext();
+  const { personas } = usePersonaContext();
   const sessions = sessionStore.getSessionList();
+  const [showPersonaPicker, setShowPersonaPicker] = useState(false);
 
-  const handleCreateSession = () => {
-    sessionStore.createNewSession();
+  const handleCreateSession = (persona?: Persona | null) => {
+    // A plain new chat becomes a session when its first message is sent
+    if (persona) sessionStore.createNewSession({ settings: personaChatSettings(persona), personaId: persona.id });
+    else sessionStore.setCurrentSession(null);
     navigation.navigate('Chat');
   };
 
@@ -69,7 +58,10 @@ export default function SessionListScreen({ navigation }: Props) {
   };
 
   const handleDeleteSession = (session: SessionListItem) => {
-    const doDelete = () => sessionStore.deleteSession(session.id);
+    const doDelete = () => {
+      sessionStore.deleteSession(session.id);
+      outbox.clearSession(session.id);
+    };
 
     if (Platform.OS === 'web') {
       if (window.confirm(`Delete "${session.title}"?`)) {
@@ -88,7 +80,10 @@ export default function SessionListScreen({ navigation }: Props) {
   };
 
   const handleClearAll = () => {
-    const doClear = () => sessionStore.clearAllSessions();
+    const doClear = () => {
+      sessionStore.clearAllSessions();
+      outbox.clearAll();
+    };
 
     if (Platform.OS === 'web') {
       if (window.confirm('Delete all sessions? This cannot be undone.')) {
@@ -158,9 +153,19 @@ export default function SessionListScreen({ navigation }: Props) {
   return (
     <View style={[styles.container, { paddingBottom: insets.bottom }]}>
       <View style={styles.header}>
-        <TouchableOpacity style={styles.newButton} onPress={handleCreateSession}>
-          <Text style={styles.newButtonText}>+ New Chat</Text>
-        </TouchableOpacity>
+        <View style={styles.newButtons}>
+          <TouchableOpacity style={styles.newButton} onPress={() => handleCreateSession()}>
+            <Text style={styles.newButtonText}>+ New Chat</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={styles.personaButton}
+            onPress={() => setShowPersonaPicker(true)}
+            accessibilityRole="button"
+            accessibilityLabel="New chat with a persona"
+          >
+            <Text style={styles.personaButtonText}>With…</Text>
+          </TouchableOpacity>
+        </View>
         {sessions.length > 0 && (
           <TouchableOpacity style={styles.clearButton} onPress={handleClearAll}>
             <Text style={styles.clearButtonText}>Clear All</Text>
@@ -175,6 +180,14 @@ export default function SessionListScreen({ navigation }: Props) {
         contentContainerStyle={sessions.length === 0 ? styles.emptyList : styles.list}
         ListEmptyComponent={EmptyState}
       />
+
+      <PersonaPicker
+        visible={showPersonaPicker}
+        personas={personas}
+        onSelect={handleCreateSession}
+        onClose={() => setShowPersonaPicker(false)}
+        onManage={() => navigation.navigate('Personas')}
+      />
     </View>
   );
 }
@@ -204,6 +217,21 @@ function createStyles(theme: Theme) {
       color: theme.colors.primaryForeground,
       fontWeight: '600',
     },
+    newButtons: {
+      flexDirection: 'row',
+      gap: spacing.sm,
+    },
+    personaButton: {
+      paddingHorizontal: spacing.md,
+      paddingVertical: spacing.sm,
+      borderRadius: radius.lg,
+      borderWidth: 1,
+      borderColor: theme.colors.border,
+    },
+    personaButtonText: {
+      color: theme.colors.foreground,
+      fontWeight: '600',
+    },
     clearButton: {
       paddingHorizontal: spacing.md,
       paddingVertical: spacing.sm,
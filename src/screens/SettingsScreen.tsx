@@ -1,11 +1,31 @@
 import { useEffect, useState, useMemo } from 'react';
-import { View, Text, TextInput, Switch, StyleSheet, ScrollView, Modal, TouchableOpacity, Platform, Pressable } from 'react-native';
+import { View, Text, TextInput, Switch, StyleSheet, ScrollView, Modal, TouchableOpacity, Platform, Pressable, Alert } from 'react-native';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
-import { AppConfig, saveConfig, useConfigContext } from '../store/config';
+import {
+  AppConfig,
+  saveConfig,
+  useConfigContext,
+  addProfile,
+  deleteProfile,
+  duplicateProfile,
+  renameProfile,
+  switchProfile,
+} from '../store/config';
 import { useTheme, ThemeMode } from '../ui/ThemeProvider';
 import { spacing, radius } from '../ui/theme';
 import { CameraView, useCameraPermissions } from 'expo-camera';
 import * as Linking from 'expo-linking';
+import { ModelPicker } from '../ui/ModelPicker';
+import { ChatSettingsSheet } from '../ui/ChatSettingsSheet';
+import { VoiceCommandsSheet } from '../ui/VoiceCommandsSheet';
+import { getSecretStorageInfo } from '../lib/secretStorage';
+import { AZURE_DEFAULT_API_VERSION, PROVIDERS, ProviderId, getProvider } from '../lib/providers';
+import { serverConnection } from '../lib/openaiClient';
+import { AUTH_SCHEME_LABELS, AuthScheme, formatHeaderLines, formatQueryLines, parseHeaderLines, parseQueryLines } from '../lib/auth';
+import { createLogger } from '../lib/logger';
+import { LOOP_DEFAULTS } from '../lib/conversationLoop';
+
+const log = createLogger('config');
 
 function parseQRCode(data: string): { baseUrl?: string; apiKey?: string } | null {
   try {
@@ -21,7 +41,7 @@ function parseQRCode(data: string): { baseUrl?: string; apiKey?: string } | null
       }
     }
   } catch (e) {
-    console.warn('Failed to parse QR code:', e);
+    log.warn('Failed to parse QR code:', e);
   }
   return null;
 }
@@ -32,6 +52,20 @@ const THEME_OPTIONS: { label: string; value: ThemeMode }[] = [
   { label: '⚙️ System', value: 'system' },
 ];
 
+const SILENCE_OPTIONS: { label: string; value: number }[] = [
+  { label: '1 s', value: 1000 },
+  { label: '1.5 s', value: 1500 },
+  { label: '2 s', value: 2000 },
+  { label: '3 s', value: 3000 },
+];
+
+const IDLE_TIMEOUT_OPTIONS: { label: string; value: number }[] = [
+  { label: '30 s', value: 30_000 },
+  { label: '1 min', value: 60_000 },
+  { label: '5 min', value: 300_000 },
+  { label: 'Never', value: 0 },
+];
+
 export default function SettingsScreen({ navigation }: any) {
   const insets = useSafeAreaInsets();
   const { theme, themeMode, setThemeMode, isDark } = useTheme();
@@ -40,13 +74,28 @@ export default function SettingsScreen({ navigation }: any) {
   const [showScanner, setShowScanner] = useState(false);
   const [permission, requestPermission] = useCameraPermissions();
   const [scanned, setScanned] = useState(false);
+  const [showModelPicker, setShowModelPicker] = useState(false);
+  const [showChatDefaults, setShowChatDefaults] = useState(false);
+  const [showVoiceCommands, setShowVoiceCommands] = useState(false);
+  // Edited as free text and parsed on every change, so half-typed lines don't get lost
+  const [headersText, setHeadersText] = useState(formatHeaderLines(config.extraHeaders));
+  const [queryText, setQueryText] = useState(formatQueryLines(config.extraQuery));
 
   // Create dynamic styles based on current theme
   const styles = useMemo(() => createStyles(theme), [theme]);
 
+  // Pick up changes made elsewhere (deep links, profile switches from the chat screen)
   useEffect(() => {
     setDraft(config);
-  }, [ready]);
+    setHeadersText(formatHeaderLines(config.extraHeaders));
+    setQueryText(formatQueryLines(config.extraQuery));
+  }, [ready, config]);
+
+  // Switching profiles in the draft replaces the extra headers/params being edited
+  useEffect(() => {
+    setHeadersText(formatHeaderLines(draft.extraHeaders));
+    setQueryText(formatQueryLines(draft.extraQuery));
+  }, [draft.activeProfileId]);
 
   const onSave = async () => {
     const normalizedDraft = {
@@ -58,6 +107,46 @@ export default function SettingsScreen({ navigation }: any) {
     navigation.navigate('Chat');
   };
 
+  const keyStorage = getSecretStorageInfo();
+  const provider = getProvider(draft.provider);
+
+  // Swap in the new provider's default URL unless the user has entered their own
+  const selectProvider = (id: ProviderId) => {
+    setDraft((prev) => {
+      const untouched = !prev.baseUrl.trim() || Object.values(PROVIDERS).some((p) => p.defaultBaseUrl === prev.baseUrl.trim());
+      return { ...prev, provider: id, baseUrl: untouched ? PROVIDERS[id].defaultBaseUrl : prev.baseUrl };
+    });
+  };
+  const authScheme = draft.auth?.scheme;
+  const selectAuthScheme = (scheme?: AuthScheme) => {
+    setDraft((prev) => ({
+      ...prev,
+      auth: scheme ? { scheme, headerName: scheme === 'header' ? prev.auth?.headerName ?? '' : undefined } : undefined,
+    }));
+  };
+
+  const activeProfile = draft.profiles.find((p) => p.id === draft.activeProfileId);
+
+  const handleDeleteProfile = () => {
+    if (!activeProfile || draft.profiles.length <= 1) return;
+    const doDelete = () => setDraft((prev) => deleteProfile(prev, activeProfile.id));
+
+    if (Platform.OS === 'web') {
+      if (window.confirm(`Delete profile "${activeProfile.name}"?`)) {
+        doDelete();
+      }
+    } else {
+      Alert.alert(
+        'Delete Profile',
+        `Are you sure you want to delete "${activeProfile.name}"?`,
+        [
+          { text: 'Cancel', style: 'cancel' },
+          { text: 'Delete', style: 'destructive', onPress: doDelete },
+        ]
+      );
+    }
+  };
+
   const handleScanQR = async () => {
     if (!permission?.granted) {
       const result = await requestPermission();
@@ -119,41 +208,166 @@ export default function SettingsScreen({ navigation }: any) {
           ))}
         </View>
 
+        <Text style={styles.sectionTitle}>Server Profiles</Text>
+        <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.profileList}>
+          {draft.profiles.map((profile) => (
+            <Pressable
+              key={profile.id}
+              style={[
+                styles.themeOption,
+                styles.profileChip,
+                profile.id === draft.activeProfileId && styles.themeOptionActive,
+              ]}
+              onPress={() => setDraft((prev) => switchProfile(prev, profile.id))}
+              accessibilityRole="button"
+              accessibilityLabel={`Edit profile ${profile.name}`}
+            >
+              <Text style={[
+                styles.themeOptionText,
+                profile.id === draft.activeProfileId && styles.themeOptionTextActive,
+              ]}>
+                {profile.name || 'Untitled'}
+              </Text>
+            </Pressable>
+          ))}
+        </ScrollView>
+        <View style={styles.profileActions}>
+          <TouchableOpacity
+            style={styles.secondaryButton}
+            onPress={() => setDraft((prev) => addProfile(prev, `Profile ${prev.profiles.length + 1}`))}
+          >
+            <Text style={styles.secondaryButtonText}>+ New</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={styles.secondaryButton}
+            onPress={() => setDraft((prev) => duplicateProfile(prev, prev.activeProfileId))}
+          >
+            <Text style={styles.secondaryButtonText}>Duplicate</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={styles.secondaryButton}
+            onPress={handleDeleteProfile}
+            disabled={draft.profiles.length <= 1}
+          >
+            <Text style={[styles.secondaryButtonText, styles.destructiveText, draft.profiles.length <= 1 && styles.disabledText]}>
+              Delete
+            </Text>
+          </TouchableOpacity>
+        </View>
+
+        <Text style={styles.label}>Profile Name</Text>
+        <TextInput
+          style={styles.input}
+          value={activeProfile?.name ?? ''}
+          onChangeText={(t) => setDraft((prev) => renameProfile(prev, prev.activeProfileId, t))}
+          placeholder='e.g. Local SpeakMCP'
+          placeholderTextColor={theme.colors.mutedForeground}
+        />
+
         <Text style={styles.sectionTitle}>API Configuration</Text>
 
         <TouchableOpacity style={styles.scanButton} onPress={handleScanQR}>
           <Text style={styles.scanButtonText}>📷 Scan QR Code</Text>
         </TouchableOpacity>
 
+        <Text style={styles.label}>Provider</Text>
+        <View style={styles.themeSelector}>
+          {Object.values(PROVIDERS).map((p) => (
+            <Pressable
+              key={p.id}
+              style={[styles.themeOption, provider.id === p.id && styles.themeOptionActive]}
+              onPress={() => selectProvider(p.id)}
+              accessibilityRole="button"
+              accessibilityLabel={`Provider ${p.label}`}
+            >
+              <Text style={[styles.themeOptionText, provider.id === p.id && styles.themeOptionTextActive]}>
+                {p.label}
+              </Text>
+            </Pressable>
+          ))}
+        </View>
+
         <Text style={styles.label}>API Key</Text>
         <TextInput
           style={styles.input}
           value={draft.apiKey}
           onChangeText={(t) => setDraft({ ...draft, apiKey: t })}
-          placeholder="sk-..."
+          placeholder={provider.id === 'ollama' ? 'Optional' : provider.id === 'anthropic' ? 'sk-ant-...' : 'sk-...'}
           placeholderTextColor={theme.colors.mutedForeground}
           autoCapitalize='none'
+          secureTextEntry
         />
+        <Text style={[styles.hint, !keyStorage.secure && styles.hintWarning]}>
+          {keyStorage.secure ? '🔒' : '⚠️'} Stored in {keyStorage.label}. {keyStorage.description}
+        </Text>
 
         <Text style={styles.label}>Base URL</Text>
         <TextInput
           style={styles.input}
           value={draft.baseUrl}
           onChangeText={(t) => setDraft({ ...draft, baseUrl: t })}
-          placeholder='https://api.openai.com/v1'
+          placeholder={provider.defaultBaseUrl}
           placeholderTextColor={theme.colors.mutedForeground}
           autoCapitalize='none'
         />
 
+        {provider.id === 'azure' && (
+          <>
+            <Text style={styles.label}>Deployment</Text>
+            <TextInput
+              style={styles.input}
+              value={draft.azureDeployment ?? ''}
+              onChangeText={(t) => setDraft({ ...draft, azureDeployment: t })}
+              placeholder='e.g. gpt-4o'
+              placeholderTextColor={theme.colors.mutedForeground}
+              autoCapitalize='none'
+              autoCorrect={false}
+            />
+            <Text style={styles.label}>API Version</Text>
+            <TextInput
+              style={styles.input}
+              value={draft.azureApiVersion ?? ''}
+              onChangeText={(t) => setDraft({ ...draft, azureApiVersion: t })}
+              placeholder={AZURE_DEFAULT_API_VERSION}
+              placeholderTextColor={theme.colors.mutedForeground}
+              autoCapitalize='none'
+              autoCorrect={false}
+            />
+          </>
+        )}
+
         <Text style={styles.label}>Model</Text>
-        <TextInput
-          style={styles.input}
-          value={draft.model}
-          onChangeText={(t) => setDraft({ ...draft, model: t })}
-          placeholder='gpt-4o-mini'
-          placeholderTextColor={theme.colors.mutedForeground}
-          autoCapitalize='none'
-        />
+        <TouchableOpacity
+          style={[styles.input, styles.pickerField]}
+          onPress={() => setShowModelPicker(true)}
+          accessibilityRole="button"
+          accessibilityLabel={`Model: ${draft.model || 'none selected'}. Tap to choose`}
+        >
+          <Text style={draft.model ? styles.pickerFieldText : styles.pickerFieldPlaceholder} numberOfLines={1}>
+            {draft.model || 'gpt-4o-mini'}
+          </Text>
+          <Text style={styles.pickerFieldText}>▾</Text>
+        </TouchableOpacity>
+
+        <TouchableOpacity
+          style={styles.scanButton}
+          onPress={() => setShowChatDefaults(true)}
+          accessibilityRole="button"
+          accessibilityLabel="Edit default system prompt and sampling parameters"
+        >
+          <Text style={styles.scanButtonText}>🎛️ Default Chat & Voice Settings</Text>
+        </TouchableOpacity>
+        <Text style={styles.hint}>
+          System prompt, sampling parameters, speech language, voice, rate and pitch for this profile. Each chat can override them from its settings sheet.
+        </Text>
+        <TouchableOpacity
+          style={styles.scanButton}
+          onPress={() => navigation.navigate('Personas')}
+          accessibilityRole="button"
+          accessibilityLabel="Manage personas"
+        >
+          <Text style={styles.scanButtonText}>🎭 Personas</Text>
+        </TouchableOpacity>
 
         <View style={styles.row}>
           <Text style={styles.label}>Hands-free Voice Mode</Text>
@@ -164,12 +378,167 @@ export default function SettingsScreen({ navigation }: any) {
             thumbColor={draft.handsFree ? theme.colors.primaryForeground : theme.colors.background}
           />
         </View>
+        {draft.handsFree && (
+          <>
+            <Text style={styles.hint}>
+              Tap the mic once to start a conversation. It listens, sends after a pause, reads the answer aloud and listens again.
+            </Text>
+            <Text style={styles.label}>Send After Silence Of</Text>
+            <View style={styles.themeSelector}>
+              {SILENCE_OPTIONS.map((option) => {
+                const active = (draft.handsFreeSilenceMs ?? LOOP_DEFAULTS.silenceMs) === option.value;
+                return (
+                  <Pressable
+                    key={option.value}
+                    style={[styles.themeOption, active && styles.themeOptionActive]}
+                    onPress={() => setDraft({ ...draft, handsFreeSilenceMs: option.value })}
+                    accessibilityRole="button"
+                    accessibilityLabel={`Send after ${option.label} of silence`}
+                  >
+                    <Text style={[styles.themeOptionText, active && styles.themeOptionTextActive]}>{option.label}</Text>
+                  </Pressable>
+                );
+              })}
+            </View>
+            <Text style={styles.label}>Stop Listening After No Speech For</Text>
+            <View style={styles.themeSelector}>
+              {IDLE_TIMEOUT_OPTIONS.map((option) => {
+                const active = (draft.handsFreeIdleTimeoutMs ?? LOOP_DEFAULTS.idleTimeoutMs) === option.value;
+                return (
+                  <Pressable
+                    key={option.value}
+                    style={[styles.themeOption, active && styles.themeOptionActive]}
+                    onPress={() => setDraft({ ...draft, handsFreeIdleTimeoutMs: option.value })}
+                    accessibilityRole="button"
+                    accessibilityLabel={`Stop listening after ${option.label}`}
+                  >
+                    <Text style={[styles.themeOptionText, active && styles.themeOptionTextActive]}>{option.label}</Text>
+                  </Pressable>
+                );
+              })}
+            </View>
+            <View style={styles.row}>
+              <Text style={styles.label}>Sounds for Listening / Sending</Text>
+              <Switch
+                value={draft.handsFreeEarcons ?? LOOP_DEFAULTS.earcons}
+                onValueChange={(v) => setDraft({ ...draft, handsFreeEarcons: v })}
+                trackColor={{ false: theme.colors.muted, true: theme.colors.primary }}
+                thumbColor={(draft.handsFreeEarcons ?? LOOP_DEFAULTS.earcons) ? theme.colors.primaryForeground : theme.colors.background}
+              />
+            </View>
+          </>
+        )}
+        <TouchableOpacity
+          style={styles.scanButton}
+          onPress={() => setShowVoiceCommands(true)}
+          accessibilityRole="button"
+          accessibilityLabel="Edit voice commands"
+        >
+          <Text style={styles.scanButtonText}>🗣️ Voice Commands</Text>
+        </TouchableOpacity>
+        <Text style={styles.hint}>
+          Phrases like "stop", "new chat" or "emergency stop" control the app by voice and are never sent to the model.
+        </Text>
+
+        <Text style={styles.sectionTitle}>Authentication</Text>
+
+        <Text style={styles.label}>Send API Key As</Text>
+        <View style={styles.themeSelector}>
+          {([undefined, ...Object.keys(AUTH_SCHEME_LABELS)] as (AuthScheme | undefined)[]).map((scheme) => (
+            <Pressable
+              key={scheme ?? 'default'}
+              style={[styles.themeOption, authScheme === scheme && styles.themeOptionActive]}
+              onPress={() => selectAuthScheme(scheme)}
+              accessibilityRole="button"
+              accessibilityLabel={`Authentication ${scheme ? AUTH_SCHEME_LABELS[scheme] : 'provider default'}`}
+            >
+              <Text style={[styles.themeOptionText, authScheme === scheme && styles.themeOptionTextActive]}>
+                {scheme ? AUTH_SCHEME_LABELS[scheme] : 'Provider default'}
+              </Text>
+            </Pressable>
+          ))}
+        </View>
+        {authScheme === 'header' && (
+          <TextInput
+            style={styles.input}
+            value={draft.auth?.headerName ?? ''}
+            onChangeText={(t) => setDraft({ ...draft, auth: { scheme: 'header', headerName: t } })}
+            placeholder='Header name, e.g. X-API-Key'
+            placeholderTextColor={theme.colors.mutedForeground}
+            autoCapitalize='none'
+            autoCorrect={false}
+          />
+        )}
+        {authScheme === 'basic' && (
+          <Text style={styles.hint}>Enter the API key as username:password.</Text>
+        )}
+
+        <Text style={styles.label}>Extra Headers</Text>
+        <TextInput
+          style={[styles.input, styles.multilineInput]}
+          value={headersText}
+          onChangeText={(t) => {
+            setHeadersText(t);
+            setDraft((prev) => ({ ...prev, extraHeaders: parseHeaderLines(t) }));
+          }}
+          placeholder={'One per line, e.g.\nOpenAI-Organization: org-123'}
+          placeholderTextColor={theme.colors.mutedForeground}
+          autoCapitalize='none'
+          autoCorrect={false}
+          multiline
+        />
+
+        <Text style={styles.label}>Extra Query Parameters</Text>
+        <TextInput
+          style={[styles.input, styles.multilineInput]}
+          value={queryText}
+          onChangeText={(t) => {
+            setQueryText(t);
+            setDraft((prev) => ({ ...prev, extraQuery: parseQueryLines(t) }));
+          }}
+          placeholder={'One per line, e.g.\ntenant=acme'}
+          placeholderTextColor={theme.colors.mutedForeground}
+          autoCapitalize='none'
+          autoCorrect={false}
+          multiline
+        />
+        <Text style={styles.hint}>
+          Sent with every request. Unlike the API key, these are stored unencrypted with the profile.
+        </Text>
+
+        <Text style={styles.sectionTitle}>Troubleshooting</Text>
+        <TouchableOpacity style={styles.scanButton} onPress={() => navigation.navigate('Diagnostics')}>
+          <Text style={styles.scanButtonText}>🩺 Diagnostics Log</Text>
+        </TouchableOpacity>
 
         <TouchableOpacity style={styles.primaryButton} onPress={onSave}>
           <Text style={styles.primaryButtonText}>Save & Start Chatting</Text>
         </TouchableOpacity>
       </ScrollView>
 
+      <ModelPicker
+        visible={showModelPicker}
+        server={serverConnection(draft)}
+        value={draft.model}
+        onSelect={(model) => setDraft((prev) => ({ ...prev, model }))}
+        onClose={() => setShowModelPicker(false)}
+      />
+
+      <ChatSettingsSheet
+        visible={showChatDefaults}
+        title="Default Chat & Voice Settings"
+        value={draft.chatDefaults}
+        onSave={(chatDefaults) => setDraft((prev) => ({ ...prev, chatDefaults }))}
+        onClose={() => setShowChatDefaults(false)}
+      />
+
+      <VoiceCommandsSheet
+        visible={showVoiceCommands}
+        value={draft.voiceCommands}
+        onSave={(voiceCommands) => setDraft((prev) => ({ ...prev, voiceCommands }))}
+        onClose={() => setShowVoiceCommands(false)}
+      />
+
       <Modal visible={showScanner} animationType="slide" onRequestClose={() => setShowScanner(false)}>
         <View style={styles.scannerContainer}>
           <CameraView
@@ -220,6 +589,30 @@ function createStyles(theme: ReturnType<typeof useTheme>['theme']) {
     input: {
       ...theme.input,
     },
+    multilineInput: {
+      minHeight: 72,
+      textAlignVertical: 'top',
+    },
+    hint: {
+      ...theme.typography.caption,
+      marginTop: -spacing.xs,
+    },
+    hintWarning: {
+      color: theme.colors.destructive,
+    },
+    pickerField: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      justifyContent: 'space-between',
+    },
+    pickerFieldText: {
+      fontSize: 16,
+      color: theme.colors.foreground,
+    },
+    pickerFieldPlaceholder: {
+      fontSize: 16,
+      color: theme.colors.mutedForeground,
+    },
     row: {
       flexDirection: 'row',
       alignItems: 'center',
@@ -253,6 +646,36 @@ function createStyles(theme: ReturnType<typeof useTheme>['theme']) {
       color: theme.colors.primaryForeground,
       fontWeight: '600',
     },
+    profileList: {
+      gap: spacing.sm,
+    },
+    profileChip: {
+      flex: 0,
+    },
+    profileActions: {
+      flexDirection: 'row',
+      gap: spacing.sm,
+    },
+    secondaryButton: {
+      flex: 1,
+      paddingVertical: spacing.sm,
+      borderRadius: radius.lg,
+      borderWidth: 1,
+      borderColor: theme.colors.border,
+      backgroundColor: theme.colors.secondary,
+      alignItems: 'center',
+    },
+    secondaryButtonText: {
+      fontSize: 14,
+      fontWeight: '500',
+      color: theme.colors.foreground,
+    },
+    destructiveText: {
+      color: theme.colors.destructive,
+    },
+    disabledText: {
+      color: theme.colors.mutedForeground,
+    },
     scanButton: {
       backgroundColor: theme.colors.secondary,
       padding: spacing.md,
@@ -0,0 +1,75 @@
+/**
+ * Sending queued messages of chats that aren't open
+ *
+ * The outbox flushes every chat once the server is reachable again. A chat open in ChatScreen
+ * sends its own messages so the reply streams into view; for any other chat the message is sent
+ * here and the finished exchange is added to the session.
+ */
+import { useCallback, useRef } from 'react';
+import { OpenAIClient, serverConnection } from '../lib/openaiClient';
+import { useTransport } from '../lib/transport';
+import { ApiError, toMessageError } from '../lib/errors';
+import { toChatMessages } from '../lib/chatHistory';
+import { loadImageData } from '../lib/attachments';
+import { createLogger } from '../lib/logger';
+import { ChatMessage, generateMessageId, resolveChatSettings } from '../types/session';
+import type { AppConfig } from './config';
+import type { SessionStore } from './sessions';
+import type { OutboxSender } from './outbox';
+
+const log = createLogger('chat');
+
+export function useBackgroundSender(config: AppConfig, sessions: SessionStore): OutboxSender {
+  const transport = useTransport();
+  // The sender outlives renders; read the latest config and sessions when a message goes out
+  const latestRef = useRef({ config, sessions });
+  latestRef.current = { config, sessions };
+
+  return useCallback(async (item) => {
+    const { config, sessions } = latestRef.current;
+    const session = sessions.sessions.find((s) => s.id === item.sessionId);
+    // The chat is gone, so there is nowhere to put the reply
+    if (!session) return true;
+
+    const settings = resolveChatSettings(config.chatDefaults, session.settings);
+    const client = new OpenAIClient({ ...serverConnection(config), model: settings.model || config.model }, transport);
+    const userMsg: ChatMessage = {
+      id: generateMessageId(),
+      role: 'user',
+      content: item.text,
+      timestamp: item.createdAt,
+      ...(item.attachments?.length ? { attachments: item.attachments } : {}),
+    };
+    const assistant: ChatMessage = { id: generateMessageId(), role: 'assistant', content: '', timestamp: Date.now() };
+    const toolMessages: ChatMessage[] = [];
+    const history = [...session.messages, userMsg];
+    let received = false;
+
+    try {
+      const images = await loadImageData(history);
+      const { systemPrompt, temperature, maxTokens, topP, stop } = settings;
+      assistant.content = await client.chat(toChatMessages(history, images), () => { received = true; }, {
+        conversationId: session.serverConversationId,
+        systemPrompt,
+        params: { temperature, maxTokens, topP, stop },
+        onConversationId: (conversationId) => sessions.updateSession(session.id, { serverConversationId: conversationId }),
+        onToolCalls: (calls) => {
+          received = true;
+          assistant.toolCalls = calls.map((c) => ({ id: c.id, name: c.function.name, arguments: c.function.arguments }));
+        },
+        onToolResult: ({ toolCallId, content }) => {
+          toolMessages.push({ id: generateMessageId(), role: 'tool', content, toolCallId, timestamp: Date.now() });
+        },
+        onEvent: () => { received = true; },
+      });
+    } catch (e) {
+      if (e instanceof ApiError && e.kind === 'network' && !received) return false;
+      log.error('Queued message failed:', e);
+      assistant.status = 'error';
+      assistant.error = toMessageError(e);
+    }
+
+    sessions.appendMessages(session.id, [userMsg, assistant, ...toolMessages]);
+    return true;
+  }, [transport]);
+}
@@ -1,41 +1,295 @@
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { createContext, useContext, useEffect, useMemo, useState } from 'react';
+import { deleteSecret, getSecret, setSecret } from '../lib/secretStorage';
+import { createLogger, setRedactions } from '../lib/logger';
+import { ProviderId } from '../lib/providers';
+import { AuthConfig } from '../lib/auth';
+import { VoiceCommandPhrases } from '../lib/voiceCommands';
+import type { ChatSettings } from '../types/session';
 
-export type AppConfig = {
+const log = createLogger('config');
+
+/** A named server connection the user can switch between */
+export type ServerProfile = {
+  id: string;
+  name: string;
   apiKey: string;
   baseUrl: string; // OpenAI-compatible API base URL e.g., https://api.openai.com/v1
-  model: string; // model name required by /v1/chat/completions
-  handsFree?: boolean; // hands-free voice mode toggle (optional for backward compatibility)
+  model: string; // default model for this server
+  handsFree?: boolean; // hands-free voice mode toggle
+  handsFreeSilenceMs?: number; // pause that ends a hands-free utterance
+  handsFreeIdleTimeoutMs?: number; // hands-free conversation ends after this long without speech (0 = never)
+  handsFreeEarcons?: boolean; // sounds for hands-free state changes
+  voiceCommands?: VoiceCommandPhrases; // custom phrases for voice commands
+  provider?: ProviderId; // API flavour (OpenAI-compatible when unset)
+  auth?: AuthConfig; // how the API key is sent (provider default when unset)
+  extraHeaders?: Record<string, string>; // extra headers for gateways (org, tenant, ...)
+  extraQuery?: Record<string, string>; // extra query parameters for every request
+  azureDeployment?: string;
+  azureApiVersion?: string;
+  chatDefaults?: ChatSettings; // system prompt and sampling defaults for new and existing chats
 };
 
-const DEFAULTS: AppConfig = {
+/** The per-profile connection settings that AppConfig mirrors at the top level */
+type ConnectionSettings = Omit<ServerProfile, 'id' | 'name'>;
+
+/**
+ * App configuration.
+ * The top-level connection fields mirror the active profile so screens can keep reading
+ * config.baseUrl etc.; saveConfig folds them back into `profiles`.
+ */
+export type AppConfig = ConnectionSettings & {
+  profiles: ServerProfile[];
+  activeProfileId: string;
+};
+
+/** What is persisted in AsyncStorage; API keys and extra header/query values live in secret storage, not here */
+type StoredConfig = {
+  profiles: ServerProfile[];
+  activeProfileId: string;
+};
+
+const PROFILE_DEFAULTS: ConnectionSettings = {
   apiKey: '',
   baseUrl: 'https://api.openai.com/v1',
   model: 'gpt-4o-mini',
   handsFree: false,
+  provider: 'openai',
 };
 
-const STORAGE_KEY = 'app_config_v1';
+const DEFAULT_PROFILE: ServerProfile = { id: 'default', name: 'Default', ...PROFILE_DEFAULTS };
+
+const DEFAULTS: AppConfig = {
+  ...PROFILE_DEFAULTS,
+  profiles: [DEFAULT_PROFILE],
+  activeProfileId: DEFAULT_PROFILE.id,
+};
+
+const STORAGE_KEY = 'app_config_v2';
+const LEGACY_STORAGE_KEY = 'app_config_v1';
+
+const apiKeySecretName = (profileId: string) => `apiKey.${profileId}`;
+// Extra headers and query parameters often carry tokens too; each map is stored as JSON
+const extraHeadersSecretName = (profileId: string) => `extraHeaders.${profileId}`;
+const extraQuerySecretName = (profileId: string) => `extraQuery.${profileId}`;
+
+const secretNames = (profileId: string) => [
+  apiKeySecretName(profileId),
+  extraHeadersSecretName(profileId),
+  extraQuerySecretName(profileId),
+];
+
+function hasEntries(map: Record<string, string> | undefined): map is Record<string, string> {
+  return !!map && Object.keys(map).length > 0;
+}
+
+// Secrets that failed to read: the loaded config has no value for them, which must not be saved
+// as "none" and delete the stored one. Writing a value the user entered takes a name off the list.
+const unreadableSecrets = new Set<string>();
+
+/** Read a secret; a failed read is logged and remembered rather than treated as a missing secret */
+async function readSecret(name: string): Promise<string | null> {
+  try {
+    const value = await getSecret(name);
+    unreadableSecrets.delete(name);
+    return value;
+  } catch (e) {
+    log.warn(`Failed to read secret ${name}:`, e);
+    unreadableSecrets.add(name);
+    return null;
+  }
+}
+
+/** Write (or with an empty value delete) a secret, leaving alone one that failed to read and got no new value */
+async function writeSecret(name: string, value: string) {
+  if (!value && unreadableSecrets.has(name)) return;
+  await setSecret(name, value);
+  unreadableSecrets.delete(name);
+}
+
+async function getMapSecret(name: string): Promise<Record<string, string> | undefined> {
+  const raw = await readSecret(name);
+  if (!raw) return undefined;
+  try {
+    const parsed = JSON.parse(raw);
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+const setMapSecret = (name: string, map: Record<string, string> | undefined) =>
+  writeSecret(name, hasEntries(map) ? JSON.stringify(map) : '');
+
+export function generateProfileId(): string {
+  return `profile_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+}
+
+/** Build the flattened config for a stored profile list, falling back to the first profile */
+function withActiveProfile(stored: StoredConfig): AppConfig {
+  const profiles = stored.profiles.length > 0 ? stored.profiles : [DEFAULT_PROFILE];
+  const active = profiles.find((p) => p.id === stored.activeProfileId) ?? profiles[0];
+  const { id, name, ...connection } = active;
+  return { ...connection, profiles, activeProfileId: id };
+}
+
+/** Copy the top-level connection fields back into the active profile */
+function syncActiveProfile(cfg: AppConfig): ServerProfile[] {
+  const { profiles, activeProfileId, ...connection } = cfg;
+  return profiles.map((p) => (p.id === activeProfileId ? { ...p, ...connection } : p));
+}
+
+export function getActiveProfile(cfg: AppConfig): ServerProfile {
+  return syncActiveProfile(cfg).find((p) => p.id === cfg.activeProfileId) ?? cfg.profiles[0];
+}
+
+/** Return a config with another profile made active, keeping edits to the current one */
+export function switchProfile(cfg: AppConfig, profileId: string): AppConfig {
+  return withActiveProfile({ profiles: syncActiveProfile(cfg), activeProfileId: profileId });
+}
+
+/** Add a profile (new or copied from `base`) and make it active */
+export function addProfile(cfg: AppConfig, name: string, base?: Partial<ServerProfile>): AppConfig {
+  const profile: ServerProfile = { ...PROFILE_DEFAULTS, ...base, id: generateProfileId(), name };
+  return withActiveProfile({ profiles: [...syncActiveProfile(cfg), profile], activeProfileId: profile.id });
+}
+
+export function duplicateProfile(cfg: AppConfig, profileId: string): AppConfig {
+  const source = syncActiveProfile(cfg).find((p) => p.id === profileId);
+  if (!source) return cfg;
+  return addProfile(cfg, `${source.name} copy`, source);
+}
+
+export function renameProfile(cfg: AppConfig, profileId: string, name: string): AppConfig {
+  return { ...cfg, profiles: cfg.profiles.map((p) => (p.id === profileId ? { ...p, name } : p)) };
+}
+
+/** Remove a profile; the last remaining profile can't be deleted */
+export function deleteProfile(cfg: AppConfig, profileId: string): AppConfig {
+  const remaining = syncActiveProfile(cfg).filter((p) => p.id !== profileId);
+  if (remaining.length === 0) return cfg;
+  const activeProfileId = cfg.activeProfileId === profileId ? remaining[0].id : cfg.activeProfileId;
+  return withActiveProfile({ profiles: remaining, activeProfileId });
+}
+
+/** Turn the single-connection v1 config into a v2 config with one "Default" profile */
+async function migrateLegacyConfig(): Promise<AppConfig | null> {
+  const raw = await AsyncStorage.getItem(LEGACY_STORAGE_KEY);
+  if (!raw) return null;
+  try {
+    const legacy = JSON.parse(raw);
+    const cfg = withActiveProfile({
+      profiles: [{ ...DEFAULT_PROFILE, ...pickProfileFields(legacy) }],
+      activeProfileId: DEFAULT_PROFILE.id,
+    });
+    try {
+      await saveConfig(cfg);
+      await AsyncStorage.removeItem(LEGACY_STORAGE_KEY);
+    } catch (e) {
+      // The legacy config stays in place and is migrated again on the next launch
+      log.warn('Failed to save the migrated config:', e);
+    }
+    return cfg;
+  } catch {
+    return null;
+  }
+}
+
+function pickProfileFields(obj: any): Partial<ServerProfile> {
+  const out: Partial<ServerProfile> = {};
+  if (typeof obj?.apiKey === 'string') out.apiKey = obj.apiKey;
+  if (typeof obj?.baseUrl === 'string') out.baseUrl = obj.baseUrl;
+  if (typeof obj?.model === 'string') out.model = obj.model;
+  if (typeof obj?.handsFree === 'boolean') out.handsFree = obj.handsFree;
+  return out;
+}
 
 export async function loadConfig(): Promise<AppConfig> {
   const raw = await AsyncStorage.getItem(STORAGE_KEY);
-  if (!raw) return DEFAULTS;
+  if (!raw) return (await migrateLegacyConfig()) ?? DEFAULTS;
   try {
-    const parsed = JSON.parse(raw);
-    return { ...DEFAULTS, ...parsed } as AppConfig;
+    const parsed = JSON.parse(raw) as Partial<StoredConfig>;
+    const stored = Array.isArray(parsed.profiles)
+      ? parsed.profiles.map((p) => ({ ...PROFILE_DEFAULTS, ...p }))
+      : [];
+    // Configs written before secret storage existed (or before it held extra headers and
+    // query parameters) still have them in plaintext; move them once
+    const hasPlaintextSecrets = stored.some((p) => !!p.apiKey || hasEntries(p.extraHeaders) || hasEntries(p.extraQuery));
+    const profiles = await Promise.all(
+      stored.map(async (p) => ({
+        ...p,
+        apiKey: p.apiKey || ((await readSecret(apiKeySecretName(p.id))) ?? ''),
+        extraHeaders: hasEntries(p.extraHeaders) ? p.extraHeaders : await getMapSecret(extraHeadersSecretName(p.id)),
+        extraQuery: hasEntries(p.extraQuery) ? p.extraQuery : await getMapSecret(extraQuerySecretName(p.id)),
+      })),
+    );
+    const cfg = withActiveProfile({ profiles, activeProfileId: parsed.activeProfileId ?? '' });
+    if (hasPlaintextSecrets) {
+      log.info('Moving API keys and extra headers out of plain storage');
+      try {
+        await saveConfig(cfg);
+      } catch (e) {
+        // The plaintext copy stays where it was and the move is tried again on the next launch
+        log.warn('Failed to move secrets out of plain storage:', e);
+      }
+    }
+    return cfg;
   } catch {
     return DEFAULTS;
   }
 }
 
+/**
+ * Persist the config. API keys, extra headers and extra query parameters are written to
+ * secret storage and stripped from the AsyncStorage blob; secrets of profiles that no
+ * longer exist are deleted. Secrets that failed to read at load are kept until replaced.
+ */
 export async function saveConfig(cfg: AppConfig) {
-  await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(cfg));
+  const profiles = syncActiveProfile(cfg);
+  const previousRaw = await AsyncStorage.getItem(STORAGE_KEY).catch(() => null);
+
+  await Promise.all(profiles.flatMap((p) => [
+    writeSecret(apiKeySecretName(p.id), p.apiKey),
+    setMapSecret(extraHeadersSecretName(p.id), p.extraHeaders),
+    setMapSecret(extraQuerySecretName(p.id), p.extraQuery),
+  ]));
+
+  const stored: StoredConfig = {
+    profiles: profiles.map(({ extraHeaders, extraQuery, ...p }) => ({ ...p, apiKey: '' })),
+    activeProfileId: cfg.activeProfileId,
+  };
+  await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(stored));
+
+  try {
+    const previous = previousRaw ? (JSON.parse(previousRaw) as Partial<StoredConfig>) : null;
+    const removed = (previous?.profiles ?? []).filter((old) => !profiles.some((p) => p.id === old.id));
+    await Promise.all(removed.flatMap((p) => secretNames(p.id).map((name) => deleteSecret(name))));
+  } catch (e) {
+    log.warn('Failed to clean up removed profile secrets:', e);
+  }
+}
+
+/** What the logger must hide for this config: custom auth header names, keys and extra header/query values */
+function configRedactions(cfg: AppConfig) {
+  const profiles = syncActiveProfile(cfg);
+  return {
+    keys: profiles.flatMap((p) => (p.auth?.scheme === 'header' && p.auth.headerName ? [p.auth.headerName] : [])),
+    values: profiles.flatMap((p) => [
+      p.apiKey,
+      ...Object.values(p.extraHeaders ?? {}),
+      ...Object.values(p.extraQuery ?? {}),
+    ]),
+  };
 }
 
 export function useConfig() {
   const [config, setConfig] = useState<AppConfig>(DEFAULTS);
   const [ready, setReady] = useState(false);
 
+  useEffect(() => {
+    setRedactions(configRedactions(config));
+  }, [config]);
+
   useEffect(() => {
     (async () => {
       const cfg = await loadConfig();
@@ -53,4 +307,3 @@ export function useConfigContext() {
   if (!ctx) throw new Error('ConfigContext missing');
   return ctx;
 }
-
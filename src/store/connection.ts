@@ -0,0 +1,99 @@
+import { createContext, useCallback, useContext, useEffect, useMemo, useRef, useState } from 'react';
+import { AppState } from 'react-native';
+import { ConnectionStatus, OpenAIClient, ServerConnection } from '../lib/openaiClient';
+import { useTransport } from '../lib/transport';
+import { createLogger } from '../lib/logger';
+
+const log = createLogger('client');
+
+const CHECK_INTERVAL_MS = 30000;
+// Focus and foreground events can fire in bursts; skip checks closer together than this
+const MIN_CHECK_GAP_MS = 3000;
+
+export type ConnectionState = {
+  /** 'unknown' until the first check for the current server finishes */
+  status: ConnectionStatus | 'unknown';
+  latencyMs?: number;
+  checkedAt?: number;
+  checking: boolean;
+};
+
+/**
+ * Monitor reachability of the configured server using OpenAIClient.health().
+ * Checks run when the server changes, every 30 s while the app is in the foreground,
+ * when the app returns to the foreground, and whenever `check()` is called (e.g. on screen focus).
+ */
+export function useConnection(server: ServerConnection, enabled = true) {
+  const transport = useTransport();
+  // Callers build `server` on every render; only re-check when its contents change
+  const serverKey = JSON.stringify(server);
+  const stableServer = useMemo(() => server, [serverKey]);
+  const { baseUrl } = stableServer;
+  const [state, setState] = useState<ConnectionState>({ status: 'unknown', checking: false });
+  const inFlightRef = useRef(false);
+  const lastCheckRef = useRef(0);
+  // Results of checks started before the server changed are discarded
+  const generationRef = useRef(0);
+
+  const runCheck = useCallback(async (force: boolean) => {
+    if (!enabled || !baseUrl.trim() || inFlightRef.current) return;
+    if (!force && Date.now() - lastCheckRef.current < MIN_CHECK_GAP_MS) return;
+    inFlightRef.current = true;
+    lastCheckRef.current = Date.now();
+    const generation = generationRef.current;
+    setState((s) => ({ ...s, checking: true }));
+    try {
+      const result = await new OpenAIClient(stableServer, transport).health();
+      if (generation !== generationRef.current) return;
+      setState((prev) => {
+        if (prev.status !== result.status) {
+          log.info('Connection status:', prev.status, '->', result.status, result.latencyMs !== undefined ? `(${result.latencyMs}ms)` : '');
+        }
+        return { status: result.status, latencyMs: result.latencyMs, checkedAt: Date.now(), checking: false };
+      });
+    } catch (e) {
+      log.warn('Connection check failed:', e);
+      if (generation === generationRef.current) setState((s) => ({ ...s, checking: false }));
+    } finally {
+      inFlightRef.current = false;
+    }
+  }, [stableServer, baseUrl, enabled, transport]);
+
+  // New server: forget the old status and check straight away
+  useEffect(() => {
+    generationRef.current += 1;
+    inFlightRef.current = false;
+    setState({ status: 'unknown', checking: false });
+    runCheck(true);
+  }, [runCheck]);
+
+  useEffect(() => {
+    if (!enabled) return;
+    let timer: ReturnType<typeof setInterval> | null = setInterval(() => runCheck(true), CHECK_INTERVAL_MS);
+    const sub = AppState.addEventListener('change', (next) => {
+      if (next === 'active') {
+        runCheck(false);
+        if (!timer) timer = setInterval(() => runCheck(true), CHECK_INTERVAL_MS);
+      } else if (timer) {
+        clearInterval(timer);
+        timer = null;
+      }
+    });
+    return () => {
+      if (timer) clearInterval(timer);
+      sub.remove();
+    };
+  }, [runCheck, enabled]);
+
+  /** Check now unless a check just ran */
+  const check = useCallback(() => runCheck(false), [runCheck]);
+
+  return { ...state, check } as const;
+}
+
+export const ConnectionContext = createContext<ReturnType<typeof useConnection> | null>(null);
+export function useConnectionContext() {
+  const ctx = useContext(ConnectionContext);
+  if (!ctx) throw new Error('ConnectionContext missing');
+  return ctx;
+}
@@ -0,0 +1,83 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { ModelInfo, OpenAIClient, ServerConnection } from '../lib/openaiClient';
+import { useTransport } from '../lib/transport';
+import { createLogger } from '../lib/logger';
+
+const log = createLogger('client');
+
+type CachedModels = {
+  models: ModelInfo[];
+  fetchedAt: number;
+};
+
+const STORAGE_KEY = 'models_cache_v1';
+// Cached lists are shown immediately; older than this they are refreshed in the background
+const STALE_AFTER_MS = 60 * 60 * 1000;
+
+async function loadCache(): Promise<Record<string, CachedModels>> {
+  const raw = await AsyncStorage.getItem(STORAGE_KEY);
+  if (!raw) return {};
+  try {
+    return JSON.parse(raw) ?? {};
+  } catch {
+    return {};
+  }
+}
+
+export async function loadCachedModels(baseUrl: string): Promise<CachedModels | null> {
+  const cache = await loadCache();
+  return cache[baseUrl] ?? null;
+}
+
+export async function saveCachedModels(baseUrl: string, models: ModelInfo[]) {
+  const cache = await loadCache();
+  cache[baseUrl] = { models, fetchedAt: Date.now() };
+  await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(cache));
+}
+
+/**
+ * Model list for a server, served from cache and refreshed from /models when stale.
+ * `error` is set when the server doesn't implement /models; callers should still allow custom entry.
+ */
+export function useModelList(server: ServerConnection, enabled = true) {
+  const transport = useTransport();
+  const serverKey = JSON.stringify(server);
+  const cfg = useMemo(() => server, [serverKey]);
+  const [models, setModels] = useState<ModelInfo[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    if (!cfg.baseUrl?.trim()) return;
+    setLoading(true);
+    setError(null);
+    try {
+      const client = new OpenAIClient(cfg, transport);
+      const list = await client.listModels();
+      setModels(list);
+      await saveCachedModels(cfg.baseUrl, list);
+    } catch (e: any) {
+      log.warn('Failed to list models:', e?.message || e);
+      setError(e?.message || 'Failed to load models');
+    } finally {
+      setLoading(false);
+    }
+  }, [cfg, transport]);
+
+  useEffect(() => {
+    if (!enabled || !cfg.baseUrl?.trim()) return;
+    let cancelled = false;
+    (async () => {
+      const cached = await loadCachedModels(cfg.baseUrl).catch(() => null);
+      if (cancelled) return;
+      if (cached) setModels(cached.models);
+      if (!cached || Date.now() - cached.fetchedAt > STALE_AFTER_MS) refresh();
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [enabled, cfg.baseUrl, refresh]);
+
+  return { models, loading, error, refresh } as const;
+}
@@ -0,0 +1,216 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { createContext, useCallback, useContext, useEffect, useRef, useState } from 'react';
+import { createLogger } from '../lib/logger';
+import { deleteAttachments } from '../lib/attachments';
+import { ImageAttachment } from '../types/session';
+import type { ConnectionState } from './connection';
+
+const log = createLogger('chat');
+
+const OUTBOX_KEY = 'chat_outbox_v1';
+
+/** A message composed while the server was unreachable, waiting to be sent */
+export type OutboxItem = {
+  id: string;
+  sessionId: string;
+  text: string;
+  /** How the message was composed; voice messages get a spoken confirmation when queued */
+  source: 'text' | 'voice';
+  /** Images to send with the text */
+  attachments?: ImageAttachment[];
+  createdAt: number;
+};
+
+/**
+ * Sends a queued message. Resolves false when the server couldn't be reached, so the message
+ * stays queued; any other outcome (including an error reply) takes it out of the outbox.
+ */
+export type OutboxSender = (item: OutboxItem) => Promise<boolean>;
+
+// How often to re-check the server while messages are waiting
+const RECHECK_MS = 10000;
+
+function generateOutboxId(): string {
+  return `outbox_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+}
+
+export async function loadOutbox(): Promise<OutboxItem[]> {
+  const raw = await AsyncStorage.getItem(OUTBOX_KEY);
+  if (!raw) return [];
+  try {
+    const parsed = JSON.parse(raw);
+    return Array.isArray(parsed) ? (parsed as OutboxItem[]) : [];
+  } catch {
+    return [];
+  }
+}
+
+export async function saveOutbox(items: OutboxItem[]) {
+  await AsyncStorage.setItem(OUTBOX_KEY, JSON.stringify(items));
+}
+
+/** Persisted FIFO of queued messages; items stay queued until they are sent or discarded */
+export function useOutbox() {
+  const [items, setItems] = useState<OutboxItem[]>([]);
+  const [ready, setReady] = useState(false);
+  const readyRef = useRef(false);
+  // The item going out right now, shown as part of its chat rather than as queued
+  const [sendingId, setSendingId] = useState<string | null>(null);
+  // An item being edited; its chat's messages wait until the edit is done
+  const [heldId, setHeldId] = useState<string | null>(null);
+  // A send that failed for lack of network outranks any earlier connection check
+  const [networkFailedAt, setNetworkFailedAt] = useState(0);
+  // Open chats send their own queued messages so the reply streams into view
+  const sendersRef = useRef(new Map<string, OutboxSender>());
+
+  useEffect(() => {
+    (async () => {
+      try {
+        setItems(await loadOutbox());
+      } catch (e) {
+        log.warn('Failed to load outbox:', e);
+      } finally {
+        readyRef.current = true;
+        setReady(true);
+      }
+    })();
+  }, []);
+
+  useEffect(() => {
+    if (!readyRef.current) return;
+    saveOutbox(items).catch((e) => log.warn('Failed to save outbox:', e));
+  }, [items]);
+
+  const enqueue = useCallback((
+    sessionId: string,
+    text: string,
+    source: OutboxItem['source'] = 'text',
+    attachments?: ImageAttachment[],
+  ) => {
+    const item: OutboxItem = { id: generateOutboxId(), sessionId, text, source, attachments, createdAt: Date.now() };
+    log.info('Queued message for', sessionId, `(${source})`);
+    setItems((prev) => [...prev, item]);
+    return item;
+  }, []);
+
+  const updateText = useCallback((id: string, text: string) => {
+    setItems((prev) => prev.map((i) => (i.id === id ? { ...i, text } : i)));
+  }, []);
+
+  /** Take a sent item out of the outbox; its images now belong to the chat */
+  const remove = useCallback((id: string) => {
+    setItems((prev) => prev.filter((i) => i.id !== id));
+  }, []);
+
+  /** Throw a queued message away, along with its images */
+  const discard = useCallback((id: string) => {
+    deleteAttachments(items.find((i) => i.id === id)?.attachments ?? []);
+    setItems((prev) => prev.filter((i) => i.id !== id));
+  }, [items]);
+
+  /** Discard everything queued for a session, e.g. when the session is deleted */
+  const clearSession = useCallback((sessionId: string) => {
+    deleteAttachments(items.filter((i) => i.sessionId === sessionId).flatMap((i) => i.attachments ?? []));
+    setItems((prev) => prev.filter((i) => i.sessionId !== sessionId));
+  }, [items]);
+
+  const clearAll = useCallback(() => {
+    deleteAttachments(items.flatMap((i) => i.attachments ?? []));
+    setItems([]);
+  }, [items]);
+
+  const hold = useCallback((id: string | null) => setHeldId(id), []);
+
+  const reportNetworkFailure = useCallback(() => setNetworkFailedAt(Date.now()), []);
+
+  /** Send a session's queued messages through `sender` while it is registered */
+  const registerSender = useCallback((sessionId: string, sender: OutboxSender) => {
+    sendersRef.current.set(sessionId, sender);
+    return () => {
+      if (sendersRef.current.get(sessionId) === sender) sendersRef.current.delete(sessionId);
+    };
+  }, []);
+
+  const senderFor = useCallback((sessionId: string) => sendersRef.current.get(sessionId), []);
+
+  return {
+    items,
+    ready,
+    sendingId,
+    setSendingId,
+    heldId,
+    hold,
+    networkFailedAt,
+    reportNetworkFailure,
+    enqueue,
+    updateText,
+    remove,
+    discard,
+    clearSession,
+    clearAll,
+    registerSender,
+    senderFor,
+  } as const;
+}
+
+export type Outbox = ReturnType<typeof useOutbox>;
+
+/** Whether the server can take messages: the last check reached it and no send has failed since */
+export function isOnline(connection: ConnectionState, networkFailedAt: number): boolean {
+  return (connection.status === 'reachable' || connection.status === 'unauthorized') &&
+    (connection.checkedAt ?? 0) > networkFailedAt;
+}
+
+/**
+ * Send queued messages, oldest first and one at a time, whenever the server is reachable.
+ * Messages of a chat with a registered sender go through it; the rest use `sendInBackground`.
+ * While anything is waiting the server is checked more often than the monitor's usual interval.
+ * Nothing is sent until `enabled`, i.e. until the sessions the messages belong to have loaded.
+ */
+export function useOutboxFlush(
+  outbox: Outbox,
+  connection: ConnectionState & { check: () => void },
+  sendInBackground: OutboxSender,
+  enabled = true,
+) {
+  const { items, heldId, networkFailedAt, sendingId, setSendingId, remove, reportNetworkFailure, senderFor } = outbox;
+  const online = isOnline(connection, networkFailedAt);
+
+  useEffect(() => {
+    if (!enabled || !online || sendingId) return;
+    // Editing a message holds the rest of its chat so the order is kept
+    const held = items.find((i) => i.id === heldId);
+    const next = items.find((i) => i.sessionId !== held?.sessionId);
+    if (!next) return;
+    setSendingId(next.id);
+    log.info('Sending queued message for', next.sessionId);
+    const send = senderFor(next.sessionId) ?? sendInBackground;
+    send(next)
+      .then((sent) => {
+        if (sent) {
+          remove(next.id);
+          return;
+        }
+        reportNetworkFailure();
+        connection.check();
+      })
+      .catch((e) => {
+        log.warn('Failed to send queued message:', e);
+        reportNetworkFailure();
+      })
+      .finally(() => setSendingId(null));
+  }, [enabled, online, sendingId, items, heldId]);
+
+  useEffect(() => {
+    if (!enabled || items.length === 0 || online) return;
+    const timer = setInterval(() => connection.check(), RECHECK_MS);
+    return () => clearInterval(timer);
+  }, [enabled, items.length, online, connection.check]);
+}
+
+export const OutboxContext = createContext<Outbox | null>(null);
+export function useOutboxContext() {
+  const ctx = useContext(OutboxContext);
+  if (!ctx) throw new Error('OutboxContext missing');
+  return ctx;
+}
@@ -0,0 +1,153 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { createContext, useCallback, useContext, useEffect, useRef, useState } from 'react';
+import { ChatSettings } from '../types/session';
+import { createLogger } from '../lib/logger';
+
+const log = createLogger('config');
+
+const PERSONAS_KEY = 'personas_v1';
+const EXPORT_VERSION = 1;
+
+/** A reusable system prompt with the model and voice it is meant to be used with */
+export type Persona = {
+  id: string;
+  name: string;
+  systemPrompt: string;
+  /** Model for chats started with this persona; the profile's model when unset */
+  model?: string;
+  /** expo-speech voice identifier */
+  voice?: string;
+  /** Speaking rate, 1 is normal speed */
+  rate?: number;
+  createdAt: number;
+  updatedAt: number;
+};
+
+export type PersonaInput = Omit<Persona, 'id' | 'createdAt' | 'updatedAt'>;
+
+function generatePersonaId(): string {
+  return `persona_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+}
+
+/** Session settings for a chat started with `persona` */
+export function personaChatSettings(persona: Persona): ChatSettings {
+  const settings: ChatSettings = { systemPrompt: persona.systemPrompt };
+  if (persona.model) settings.model = persona.model;
+  if (persona.voice) settings.voice = persona.voice;
+  if (persona.rate !== undefined) settings.rate = persona.rate;
+  return settings;
+}
+
+/** JSON for sharing personas between devices; IDs and timestamps are left out */
+export function exportPersonas(personas: Persona[]): string {
+  const items = personas.map(({ id, createdAt, updatedAt, ...rest }) => rest);
+  return JSON.stringify({ version: EXPORT_VERSION, personas: items }, null, 2);
+}
+
+/**
+ * Parse an export (or a bare array of personas).
+ * Throws with a user-facing message when the text isn't a persona export.
+ */
+export function parsePersonaExport(text: string): PersonaInput[] {
+  let parsed: any;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error('Not valid JSON');
+  }
+  const list = Array.isArray(parsed) ? parsed : parsed?.personas;
+  if (!Array.isArray(list)) throw new Error('No personas found');
+  return list.map((p: any, i: number) => {
+    if (typeof p?.name !== 'string' || !p.name.trim() || typeof p?.systemPrompt !== 'string') {
+      throw new Error(`Persona ${i + 1} needs a name and a system prompt`);
+    }
+    return {
+      name: p.name.trim(),
+      systemPrompt: p.systemPrompt,
+      model: typeof p.model === 'string' && p.model ? p.model : undefined,
+      voice: typeof p.voice === 'string' && p.voice ? p.voice : undefined,
+      rate: typeof p.rate === 'number' ? p.rate : undefined,
+    };
+  });
+}
+
+export async function loadPersonas(): Promise<Persona[]> {
+  const raw = await AsyncStorage.getItem(PERSONAS_KEY);
+  if (!raw) return [];
+  try {
+    const parsed = JSON.parse(raw);
+    return Array.isArray(parsed) ? (parsed as Persona[]) : [];
+  } catch {
+    return [];
+  }
+}
+
+export async function savePersonas(personas: Persona[]) {
+  await AsyncStorage.setItem(PERSONAS_KEY, JSON.stringify(personas));
+}
+
+/** Persisted persona library */
+export function usePersonas() {
+  const [personas, setPersonas] = useState<Persona[]>([]);
+  const [ready, setReady] = useState(false);
+  const readyRef = useRef(false);
+
+  useEffect(() => {
+    (async () => {
+      try {
+        setPersonas(await loadPersonas());
+      } catch (e) {
+        log.warn('Failed to load personas:', e);
+      } finally {
+        readyRef.current = true;
+        setReady(true);
+      }
+    })();
+  }, []);
+
+  useEffect(() => {
+    if (!readyRef.current) return;
+    savePersonas(personas).catch((e) => log.warn('Failed to save personas:', e));
+  }, [personas]);
+
+  const createPersona = useCallback((input: PersonaInput): Persona => {
+    const now = Date.now();
+    const persona: Persona = { ...input, id: generatePersonaId(), createdAt: now, updatedAt: now };
+    setPersonas((prev) => [...prev, persona]);
+    return persona;
+  }, []);
+
+  const updatePersona = useCallback((id: string, input: PersonaInput) => {
+    setPersonas((prev) => prev.map((p) => (p.id === id ? { ...p, ...input, updatedAt: Date.now() } : p)));
+  }, []);
+
+  const deletePersona = useCallback((id: string) => {
+    setPersonas((prev) => prev.filter((p) => p.id !== id));
+  }, []);
+
+  /** Add imported personas; one with the same name as an existing persona replaces it. Returns the count. */
+  const importPersonas = useCallback((text: string): number => {
+    const inputs = parsePersonaExport(text);
+    const now = Date.now();
+    setPersonas((prev) => {
+      const next = [...prev];
+      for (const input of inputs) {
+        const idx = next.findIndex((p) => p.name.toLowerCase() === input.name.toLowerCase());
+        if (idx >= 0) next[idx] = { ...next[idx], ...input, updatedAt: now };
+        else next.push({ ...input, id: generatePersonaId(), createdAt: now, updatedAt: now });
+      }
+      return next;
+    });
+    log.info('Imported', inputs.length, 'personas');
+    return inputs.length;
+  }, []);
+
+  return { personas, ready, createPersona, updatePersona, deletePersona, importPersonas } as const;
+}
+
+export const PersonaContext = createContext<ReturnType<typeof usePersonas> | null>(null);
+export function usePersonaContext() {
+  const ctx = useContext(PersonaContext);
+  if (!ctx) throw new Error('PersonaContext missing');
+  return ctx;
+}
@@ -0,0 +1,165 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { createContext, useCallback, useContext, useEffect, useMemo, useRef, useState } from 'react';
+import {
+  ChatMessage,
+  Session,
+  SessionListItem,
+  createSession,
+  generateSessionTitle,
+  sessionToListItem,
+} from '../types/session';
+import { createLogger } from '../lib/logger';
+import { deleteAttachments } from '../lib/attachments';
+
+const log = createLogger('sessions');
+
+const SESSIONS_KEY = 'chat_sessions_v1';
+const CURRENT_SESSION_KEY = 'chat_current_session_v1';
+
+export async function loadSessions(): Promise<Session[]> {
+  const raw = await AsyncStorage.getItem(SESSIONS_KEY);
+  if (!raw) return [];
+  try {
+    const parsed = JSON.parse(raw);
+    return Array.isArray(parsed) ? (parsed as Session[]) : [];
+  } catch {
+    return [];
+  }
+}
+
+export async function saveSessions(sessions: Session[]) {
+  await AsyncStorage.setItem(SESSIONS_KEY, JSON.stringify(sessions));
+}
+
+/** A session with new messages; sessions still titled "New Chat" are named after the first user message */
+function withMessages(session: Session, messages: ChatMessage[]): Session {
+  const firstUser = messages.find((m) => m.role === 'user' && m.content.trim());
+  const title = session.title === 'New Chat' && firstUser ? generateSessionTitle(firstUser.content) : session.title;
+  return { ...session, title, messages, updatedAt: Date.now() };
+}
+
+export function useSessions() {
+  const [sessions, setSessions] = useState<Session[]>([]);
+  const [currentSessionId, setCurrentSessionId] = useState<string | null>(null);
+  const [ready, setReady] = useState(false);
+  const readyRef = useRef(false);
+  // Set while the latest changes couldn't be written, e.g. with the browser's storage full
+  const [saveError, setSaveError] = useState<string | null>(null);
+
+  useEffect(() => {
+    (async () => {
+      try {
+        const [loaded, currentId] = await Promise.all([
+          loadSessions(),
+          AsyncStorage.getItem(CURRENT_SESSION_KEY),
+        ]);
+        setSessions(loaded);
+        if (currentId && loaded.some((s) => s.id === currentId)) {
+          setCurrentSessionId(currentId);
+        }
+      } catch (e) {
+        log.warn('Failed to load sessions:', e);
+      } finally {
+        readyRef.current = true;
+        setReady(true);
+      }
+    })();
+  }, []);
+
+  // Persist after the initial load so we never overwrite stored sessions with the empty default
+  useEffect(() => {
+    if (!readyRef.current) return;
+    saveSessions(sessions)
+      .then(() => setSaveError(null))
+      .catch((e) => {
+        log.warn('Failed to save sessions:', e);
+        setSaveError(e instanceof Error ? e.message : String(e));
+      });
+  }, [sessions]);
+
+  useEffect(() => {
+    if (!readyRef.current) return;
+    const op = currentSessionId
+      ? AsyncStorage.setItem(CURRENT_SESSION_KEY, currentSessionId)
+      : AsyncStorage.removeItem(CURRENT_SESSION_KEY);
+    op.catch((e) => log.warn('Failed to save current session:', e));
+  }, [currentSessionId]);
+
+  const currentSession = useMemo(
+    () => sessions.find((s) => s.id === currentSessionId) ?? null,
+    [sessions, currentSessionId],
+  );
+
+  const getSessionList = useCallback((): SessionListItem[] => {
+    return [...sessions]
+      .sort((a, b) => b.updatedAt - a.updatedAt)
+      .map(sessionToListItem);
+  }, [sessions]);
+
+  /** Start a session, optionally with a persona's settings, and make it current */
+  const createNewSession = useCallback((init?: Pick<Session, 'settings' | 'personaId'>): Session => {
+    const session = createSession(undefined, init);
+    setSessions((prev) => [session, ...prev]);
+    setCurrentSessionId(session.id);
+    return session;
+  }, []);
+
+  const setCurrentSession = useCallback((id: string | null) => {
+    setCurrentSessionId(id);
+  }, []);
+
+  const deleteSession = useCallback((id: string) => {
+    const removed = sessions.find((s) => s.id === id);
+    if (removed) deleteAttachments(removed.messages.flatMap((m) => m.attachments ?? []));
+    setSessions((prev) => prev.filter((s) => s.id !== id));
+    setCurrentSessionId((cur) => (cur === id ? null : cur));
+  }, [sessions]);
+
+  const clearAllSessions = useCallback(() => {
+    deleteAttachments(sessions.flatMap((s) => s.messages.flatMap((m) => m.attachments ?? [])));
+    setSessions([]);
+    setCurrentSessionId(null);
+  }, [sessions]);
+
+  /** Apply a partial update to a session and bump its updatedAt */
+  const updateSession = useCallback((id: string, patch: Partial<Omit<Session, 'id'>>) => {
+    setSessions((prev) =>
+      prev.map((s) => (s.id === id ? { ...s, ...patch, updatedAt: Date.now() } : s)),
+    );
+  }, []);
+
+  /** Replace the messages of a session */
+  const setSessionMessages = useCallback((id: string, messages: ChatMessage[]) => {
+    setSessions((prev) => prev.map((s) => (s.id === id ? withMessages(s, messages) : s)));
+  }, []);
+
+  /** Add messages to the end of a session, e.g. an exchange sent while the chat wasn't open */
+  const appendMessages = useCallback((id: string, added: ChatMessage[]) => {
+    setSessions((prev) => prev.map((s) => (s.id === id ? withMessages(s, [...s.messages, ...added]) : s)));
+  }, []);
+
+  return {
+    sessions,
+    currentSessionId,
+    currentSession,
+    ready,
+    saveError,
+    getSessionList,
+    createNewSession,
+    setCurrentSession,
+    deleteSession,
+    clearAllSessions,
+    updateSession,
+    setSessionMessages,
+    appendMessages,
+  } as const;
+}
+
+export type SessionStore = ReturnType<typeof useSessions>;
+
+export const SessionContext = createContext<SessionStore | null>(null);
+export function useSessionContext() {
+  const ctx = useContext(SessionContext);
+  if (!ctx) throw new Error('SessionContext missing');
+  return ctx;
+}
@@ -2,12 +2,85 @@
  * Session and Chat Types for Mobile App
  * Adapted from SpeakMCP/src/shared/types.ts for mobile use
  */
+import type { ApiErrorKind } from '../lib/errors';
+import type { GenerationParams } from '../lib/openaiClient';
+
+export interface ToolCall {
+  id: string;
+  name: string;
+  /** JSON-encoded arguments as sent by the model */
+  arguments: string;
+}
+
+/** One entry in the agent progress timeline shown while an agent works */
+export interface AgentStep {
+  type: string;
+  label: string;
+  toolName?: string;
+  iteration?: number;
+  maxIterations?: number;
+  timestamp: number;
+}
+
+/** An image sent with a user message */
+export interface ImageAttachment {
+  id: string;
+  /** Stored file (native) or data URL (web) of the downscaled image */
+  uri: string;
+  mimeType: string;
+  width: number;
+  height: number;
+}
+
+/** Why a request failed; rendered as an actionable error bubble instead of assistant text */
+export interface MessageError {
+  kind: ApiErrorKind;
+  message: string;
+  /** When the server asked us to wait (rate limits), the earliest time to retry */
+  retryAt?: number;
+}
 
 export interface ChatMessage {
   id: string;
-  role: 'system' | 'user' | 'assistant';
+  role: 'system' | 'user' | 'assistant' | 'tool';
   content: string;
   timestamp: number;
+  /**
+   * Set when the response was cut short: 'stopped' when the user pressed Stop mid-stream,
+   * 'error' when the request failed (see `error`)
+   */
+  status?: 'stopped' | 'error';
+  error?: MessageError;
+  /** Tools the assistant invoked while producing this message */
+  toolCalls?: ToolCall[];
+  /** For role "tool": ID of the tool call this message is the result of */
+  toolCallId?: string;
+  /** Agent progress events received while this assistant message was being produced */
+  agentSteps?: AgentStep[];
+  /** Images sent with a user message */
+  attachments?: ImageAttachment[];
+}
+
+/**
+ * System prompt, sampling parameters and voice for a chat.
+ * Unset fields fall back to the profile's defaults, then to the server's.
+ */
+export interface ChatSettings extends GenerationParams {
+  systemPrompt?: string;
+  /** Overrides the profile's model for this chat */
+  model?: string;
+  /** expo-speech voice identifier for spoken replies */
+  voice?: string;
+  /** Speaking rate for spoken replies, 1 is normal speed */
+  rate?: number;
+  /** Voice pitch for spoken replies, 1 is normal */
+  pitch?: number;
+  /** BCP-47 language for speech recognition and spoken replies; the device's language when unset */
+  language?: string;
+  /** Read replies aloud (on when unset) */
+  speakResponses?: boolean;
+  /** Read each reply in the language it is written in rather than `language` */
+  followReplyLanguage?: boolean;
 }
 
 export interface Session {
@@ -18,6 +91,10 @@ export interface Session {
   messages: ChatMessage[];
   /** Server-side conversation ID for continuing conversations on the SpeakMCP server */
   serverConversationId?: string;
+  /** Per-chat overrides of the profile's chat defaults */
+  settings?: ChatSettings;
+  /** Persona the chat was started with, if any */
+  personaId?: string;
   /** Optional metadata about the session */
   metadata?: {
     model?: string;
@@ -64,7 +141,7 @@ export function generateSessionTitle(firstMessage: string): string {
 /**
  * Create a new session with an optional first message
  */
-export function createSession(firstMessage?: string): Session {
+export function createSession(firstMessage?: string, init?: Pick<Session, 'settings' | 'personaId'>): Session {
   const now = Date.now();
   const session: Session = {
     id: generateSessionId(),
@@ -72,6 +149,7 @@ export function createSession(firstMessage?: string): Session {
     createdAt: now,
     updatedAt: now,
     messages: [],
+    ...init,
   };
 
   if (firstMessage) {
@@ -86,19 +164,32 @@ export function createSession(firstMessage?: string): Session {
   return session;
 }
 
+/**
+ * Combine profile defaults with a session's overrides, field by field
+ */
+export function resolveChatSettings(defaults: ChatSettings = {}, overrides: ChatSettings = {}): ChatSettings {
+  const out: ChatSettings = { ...defaults };
+  for (const [key, value] of Object.entries(overrides) as [keyof ChatSettings, any][]) {
+    if (value !== undefined) out[key] = value;
+  }
+  return out;
+}
+
 /**
  * Convert a Session to a SessionListItem for display in list
  */
 export function sessionToListItem(session: Session): SessionListItem {
-  const lastMsg = session.messages[session.messages.length - 1];
-  const preview = lastMsg?.content || '';
+  // Tool output and failed requests aren't meaningful as a preview, so use the last user/assistant text
+  const lastMsg = [...session.messages].reverse().find((m) =>
+    m.role !== 'tool' && m.status !== 'error' && (!!m.content || !!m.attachments?.length));
+  const preview = lastMsg?.content || (lastMsg?.attachments?.length ? '📷 Photo' : '');
   
   return {
     id: session.id,
     title: session.title,
     createdAt: session.createdAt,
     updatedAt: session.updatedAt,
-    messageCount: session.messages.length,
+    messageCount: session.messages.filter((m) => m.role !== 'tool').length,
     lastMessage: preview.substring(0, 100),
     preview: preview.substring(0, 200),
   };
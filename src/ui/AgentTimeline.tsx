@@ -0,0 +1,122 @@
+/**
+ * Live timeline of SpeakMCP agent steps shown above an assistant message.
+ * Expanded while the agent is working; collapses to a one-line summary once the answer is in.
+ */
+import { useEffect, useMemo, useState } from 'react';
+import { View, Text, TouchableOpacity, StyleSheet, ActivityIndicator } from 'react-native';
+import { useTheme } from './ThemeProvider';
+import { spacing, radius, Theme } from './theme';
+import { AgentStep } from '../types/session';
+
+interface AgentTimelineProps {
+  steps: AgentStep[];
+  /** Whether the agent is still working on this message */
+  active: boolean;
+}
+
+function describeStep(step: AgentStep): string {
+  if (step.toolName) return `${step.label || 'Calling tool'} · ${step.toolName}`;
+  return step.label || step.type.replace(/_/g, ' ');
+}
+
+export function AgentTimeline({ steps, active }: AgentTimelineProps) {
+  const { theme } = useTheme();
+  const styles = useMemo(() => createStyles(theme), [theme]);
+  const [expanded, setExpanded] = useState(active);
+
+  // Follow the agent state: open while working, collapse when the final answer arrives
+  useEffect(() => {
+    setExpanded(active);
+  }, [active]);
+
+  if (steps.length === 0) return null;
+
+  const current = steps[steps.length - 1];
+  const withIteration = [...steps].reverse().find((s) => s.iteration !== undefined);
+  const iterationText = withIteration
+    ? `Iteration ${withIteration.iteration}${withIteration.maxIterations ? `/${withIteration.maxIterations}` : ''}`
+    : null;
+
+  return (
+    <View style={styles.container}>
+      <TouchableOpacity
+        style={styles.header}
+        onPress={() => setExpanded((e) => !e)}
+        accessibilityRole="button"
+        accessibilityLabel={`Agent steps, ${expanded ? 'collapse' : 'expand'}`}
+      >
+        {active && <ActivityIndicator size="small" color={theme.colors.foreground} />}
+        <Text style={styles.current} numberOfLines={1}>
+          {active ? describeStep(current) : `${steps.length} agent step${steps.length !== 1 ? 's' : ''}`}
+        </Text>
+        {!!iterationText && <Text style={styles.meta}>{iterationText}</Text>}
+        <Text style={styles.meta}>{expanded ? '▾' : '▸'}</Text>
+      </TouchableOpacity>
+      {expanded && (
+        <View style={styles.list}>
+          {steps.map((step, idx) => {
+            const isCurrent = active && idx === steps.length - 1;
+            return (
+              <View key={`${step.timestamp}_${idx}`} style={styles.stepRow}>
+                <View style={[styles.dot, isCurrent && styles.dotActive]} />
+                <Text style={[styles.stepText, isCurrent && styles.stepTextActive]} numberOfLines={2}>
+                  {describeStep(step)}
+                </Text>
+              </View>
+            );
+          })}
+        </View>
+      )}
+    </View>
+  );
+}
+
+function createStyles(theme: Theme) {
+  return StyleSheet.create({
+    container: {
+      borderLeftWidth: 2,
+      borderLeftColor: theme.colors.border,
+      paddingLeft: spacing.sm,
+      marginBottom: spacing.sm,
+    },
+    header: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: spacing.sm,
+    },
+    current: {
+      ...theme.typography.caption,
+      color: theme.colors.foreground,
+      flex: 1,
+    },
+    meta: {
+      ...theme.typography.caption,
+    },
+    list: {
+      marginTop: spacing.xs,
+      gap: spacing.xs,
+    },
+    stepRow: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: spacing.sm,
+    },
+    dot: {
+      width: 6,
+      height: 6,
+      borderRadius: radius.full,
+      backgroundColor: theme.colors.mutedForeground,
+    },
+    dotActive: {
+      backgroundColor: theme.colors.primary,
+    },
+    stepText: {
+      ...theme.typography.caption,
+      flex: 1,
+    },
+    stepTextActive: {
+      color: theme.colors.foreground,
+      fontWeight: '600',
+    },
+  });
+}
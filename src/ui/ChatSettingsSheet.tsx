@@ -0,0 +1,428 @@
+/**
+ * Bottom sheet for editing a chat's system prompt, sampling parameters and voice.
+ * Also used in Settings for the profile's defaults. Empty fields mean "inherit".
+ */
+import { useEffect, useMemo, useState } from 'react';
+import { View, Text, TextInput, TouchableOpacity, Modal, StyleSheet, Pressable, ScrollView } from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import * as Speech from 'expo-speech';
+import { useTheme } from './ThemeProvider';
+import { spacing, radius, Theme } from './theme';
+import { VoicePicker } from './VoicePicker';
+import { ChatSettings } from '../types/session';
+import { deviceLanguage } from '../lib/voices';
+
+interface ChatSettingsSheetProps {
+  visible: boolean;
+  title: string;
+  value?: ChatSettings;
+  /** What empty fields fall back to; shown as placeholders */
+  defaults?: ChatSettings;
+  onSave: (settings: ChatSettings) => void;
+  onClose: () => void;
+}
+
+/** '' inherits the default */
+type Toggle = '' | 'on' | 'off';
+
+type FormState = {
+  systemPrompt: string;
+  temperature: string;
+  maxTokens: string;
+  topP: string;
+  stop: string;
+  language: string;
+  voice: string;
+  rate: string;
+  pitch: string;
+  speakResponses: Toggle;
+  followReplyLanguage: Toggle;
+};
+
+const toToggle = (value?: boolean): Toggle => (value === undefined ? '' : value ? 'on' : 'off');
+const fromToggle = (value: Toggle) => (value === '' ? undefined : value === 'on');
+
+function toForm(s: ChatSettings = {}): FormState {
+  return {
+    systemPrompt: s.systemPrompt ?? '',
+    temperature: s.temperature?.toString() ?? '',
+    maxTokens: s.maxTokens?.toString() ?? '',
+    topP: s.topP?.toString() ?? '',
+    stop: (s.stop ?? []).join('\n'),
+    language: s.language ?? '',
+    voice: s.voice ?? '',
+    rate: s.rate?.toString() ?? '',
+    pitch: s.pitch?.toString() ?? '',
+    speakResponses: toToggle(s.speakResponses),
+    followReplyLanguage: toToggle(s.followReplyLanguage),
+  };
+}
+
+/**
+ * Parse the form on top of `base`, whose fields the form doesn't show (model) are kept.
+ * Returns an error message for the first invalid field.
+ */
+function fromForm(f: FormState, base: ChatSettings = {}): { settings: ChatSettings; error?: string } {
+  const num = (text: string) => (text.trim() ? Number(text.trim()) : undefined);
+  const temperature = num(f.temperature);
+  const maxTokens = num(f.maxTokens);
+  const topP = num(f.topP);
+  const rate = num(f.rate);
+  const pitch = num(f.pitch);
+  if (temperature !== undefined && !(temperature >= 0 && temperature <= 2)) {
+    return { settings: {}, error: 'Temperature must be between 0 and 2' };
+  }
+  if (maxTokens !== undefined && !(Number.isInteger(maxTokens) && maxTokens > 0)) {
+    return { settings: {}, error: 'Max tokens must be a positive whole number' };
+  }
+  if (topP !== undefined && !(topP > 0 && topP <= 1)) {
+    return { settings: {}, error: 'Top P must be greater than 0 and at most 1' };
+  }
+  if (rate !== undefined && !(rate >= 0.1 && rate <= 4)) {
+    return { settings: {}, error: 'Speaking rate must be between 0.1 and 4' };
+  }
+  if (pitch !== undefined && !(pitch >= 0.5 && pitch <= 2)) {
+    return { settings: {}, error: 'Pitch must be between 0.5 and 2' };
+  }
+  const language = f.language.trim();
+  if (language && !/^[a-z]{2,3}([-_][a-z0-9]{2,8})*$/i.test(language)) {
+    return { settings: {}, error: 'Language must be a code like en-US or de-DE' };
+  }
+  const stop = f.stop.split('\n').filter((s) => s.length > 0);
+  const { model } = base;
+  const settings: ChatSettings = model ? { model } : {};
+  if (f.systemPrompt.trim()) settings.systemPrompt = f.systemPrompt;
+  if (temperature !== undefined) settings.temperature = temperature;
+  if (maxTokens !== undefined) settings.maxTokens = maxTokens;
+  if (topP !== undefined) settings.topP = topP;
+  if (stop.length) settings.stop = stop;
+  if (language) settings.language = language.replace('_', '-');
+  if (f.voice) settings.voice = f.voice;
+  if (rate !== undefined) settings.rate = rate;
+  if (pitch !== undefined) settings.pitch = pitch;
+  const speakResponses = fromToggle(f.speakResponses);
+  if (speakResponses !== undefined) settings.speakResponses = speakResponses;
+  const followReplyLanguage = fromToggle(f.followReplyLanguage);
+  if (followReplyLanguage !== undefined) settings.followReplyLanguage = followReplyLanguage;
+  return { settings };
+}
+
+export function ChatSettingsSheet({ visible, title, value, defaults, onSave, onClose }: ChatSettingsSheetProps) {
+  const { theme } = useTheme();
+  const insets = useSafeAreaInsets();
+  const styles = useMemo(() => createStyles(theme), [theme]);
+  const [form, setForm] = useState<FormState>(() => toForm(value));
+
+  // Start from the saved values each time the sheet opens
+  useEffect(() => {
+    if (visible) setForm(toForm(value));
+  }, [visible]);
+
+  const { settings, error } = fromForm(form, value);
+  const fallback = (v: unknown) => (v === undefined ? 'Server default' : `Default: ${v}`);
+  const set = (key: keyof FormState) => (text: string) => setForm((prev) => ({ ...prev, [key]: text }));
+  const language = form.language.trim() || defaults?.language || deviceLanguage();
+
+  const preview = () => {
+    Speech.stop();
+    Speech.speak('This is how replies will sound.', {
+      language,
+      voice: form.voice || defaults?.voice,
+      rate: settings.rate ?? defaults?.rate,
+      pitch: settings.pitch ?? defaults?.pitch,
+    });
+  };
+
+  /** On / Off chips, plus "Default" when there are defaults to inherit */
+  const toggleChips = (key: 'speakResponses' | 'followReplyLanguage', label: string, fallbackOn: boolean) => {
+    const inherited = defaults?.[key] ?? fallbackOn;
+    const options: { value: Toggle; label: string }[] = [
+      ...(defaults ? [{ value: '' as Toggle, label: `Default (${inherited ? 'On' : 'Off'})` }] : []),
+      { value: 'on', label: 'On' },
+      { value: 'off', label: 'Off' },
+    ];
+    // Without defaults an unset value simply shows as its built-in setting
+    const current = !defaults && form[key] === '' ? toToggle(fallbackOn) : form[key];
+    return (
+      <View style={styles.chips}>
+        {options.map((option) => (
+          <Pressable
+            key={option.value || 'default'}
+            style={[styles.chip, current === option.value && styles.chipActive]}
+            onPress={() => setForm((prev) => ({ ...prev, [key]: option.value }))}
+            accessibilityRole="button"
+            accessibilityLabel={`${label}: ${option.label}`}
+          >
+            <Text style={[styles.chipText, current === option.value && styles.chipTextActive]}>{option.label}</Text>
+          </Pressable>
+        ))}
+      </View>
+    );
+  };
+
+  return (
+    <Modal visible={visible} transparent animationType="fade" onRequestClose={onClose}>
+      <Pressable style={styles.backdrop} onPress={onClose}>
+        <Pressable style={[styles.sheet, { paddingBottom: insets.bottom + spacing.md }]}>
+          <Text style={styles.title}>{title}</Text>
+          <ScrollView keyboardShouldPersistTaps="handled" contentContainerStyle={styles.fields}>
+            <Text style={styles.label}>System Prompt</Text>
+            <TextInput
+              style={[styles.input, styles.multiline]}
+              value={form.systemPrompt}
+              onChangeText={set('systemPrompt')}
+              placeholder={defaults?.systemPrompt ? `Default: ${defaults.systemPrompt}` : 'e.g. You are a concise voice assistant.'}
+              placeholderTextColor={theme.colors.mutedForeground}
+              multiline
+            />
+
+            <View style={styles.row}>
+              <View style={styles.cell}>
+                <Text style={styles.label}>Temperature</Text>
+                <TextInput
+                  style={styles.input}
+                  value={form.temperature}
+                  onChangeText={set('temperature')}
+                  placeholder={fallback(defaults?.temperature)}
+                  placeholderTextColor={theme.colors.mutedForeground}
+                  keyboardType="decimal-pad"
+                />
+              </View>
+              <View style={styles.cell}>
+                <Text style={styles.label}>Top P</Text>
+                <TextInput
+                  style={styles.input}
+                  value={form.topP}
+                  onChangeText={set('topP')}
+                  placeholder={fallback(defaults?.topP)}
+                  placeholderTextColor={theme.colors.mutedForeground}
+                  keyboardType="decimal-pad"
+                />
+              </View>
+            </View>
+
+            <Text style={styles.label}>Max Tokens</Text>
+            <TextInput
+              style={styles.input}
+              value={form.maxTokens}
+              onChangeText={set('maxTokens')}
+              placeholder={fallback(defaults?.maxTokens)}
+              placeholderTextColor={theme.colors.mutedForeground}
+              keyboardType="number-pad"
+            />
+
+            <Text style={styles.label}>Stop Sequences</Text>
+            <TextInput
+              style={[styles.input, styles.multiline]}
+              value={form.stop}
+              onChangeText={set('stop')}
+              placeholder={defaults?.stop?.length ? `Default: ${defaults.stop.join(', ')}` : 'One per line'}
+              placeholderTextColor={theme.colors.mutedForeground}
+              autoCapitalize="none"
+              autoCorrect={false}
+              multiline
+            />
+
+            <Text style={styles.section}>Voice</Text>
+
+            <Text style={styles.label}>Language</Text>
+            <TextInput
+              style={styles.input}
+              value={form.language}
+              onChangeText={set('language')}
+              placeholder={defaults?.language ? `Default: ${defaults.language}` : `Device language: ${deviceLanguage()}`}
+              placeholderTextColor={theme.colors.mutedForeground}
+              autoCapitalize="none"
+              autoCorrect={false}
+            />
+            <Text style={styles.hint}>For speech recognition and spoken replies, e.g. en-GB, de-DE or es-MX.</Text>
+
+            <Text style={styles.label}>Voice</Text>
+            <VoicePicker
+              value={form.voice || undefined}
+              language={language}
+              onChange={(voice) => setForm((prev) => ({ ...prev, voice: voice ?? '' }))}
+              defaultLabel={defaults?.voice ? 'Profile default' : 'System default'}
+            />
+
+            <View style={styles.row}>
+              <View style={styles.cell}>
+                <Text style={styles.label}>Speaking Rate</Text>
+                <TextInput
+                  style={styles.input}
+                  value={form.rate}
+                  onChangeText={set('rate')}
+                  placeholder={defaults?.rate !== undefined ? `Default: ${defaults.rate}` : '1 (normal)'}
+                  placeholderTextColor={theme.colors.mutedForeground}
+                  keyboardType="decimal-pad"
+                />
+              </View>
+              <View style={styles.cell}>
+                <Text style={styles.label}>Pitch</Text>
+                <TextInput
+                  style={styles.input}
+                  value={form.pitch}
+                  onChangeText={set('pitch')}
+                  placeholder={defaults?.pitch !== undefined ? `Default: ${defaults.pitch}` : '1 (normal)'}
+                  placeholderTextColor={theme.colors.mutedForeground}
+                  keyboardType="decimal-pad"
+                />
+              </View>
+            </View>
+            <TouchableOpacity onPress={preview} accessibilityRole="button">
+              <Text style={styles.link}>🔊 Preview voice</Text>
+            </TouchableOpacity>
+
+            <Text style={styles.label}>Speak Responses</Text>
+            {toggleChips('speakResponses', 'Speak responses', true)}
+
+            <Text style={styles.label}>Follow the Reply's Language</Text>
+            {toggleChips('followReplyLanguage', "Follow the reply's language", false)}
+            <Text style={styles.hint}>Reads a reply written in another language with a voice for that language.</Text>
+
+            {!!error && <Text style={styles.error}>{error}</Text>}
+          </ScrollView>
+
+          <View style={styles.actions}>
+            {defaults && (
+              <TouchableOpacity
+                style={styles.secondaryButton}
+                onPress={() => setForm(toForm())}
+                accessibilityRole="button"
+                accessibilityLabel="Clear overrides and use the defaults"
+              >
+                <Text style={styles.secondaryButtonText}>Use Defaults</Text>
+              </TouchableOpacity>
+            )}
+            <TouchableOpacity
+              style={[styles.primaryButton, !!error && styles.disabled]}
+              disabled={!!error}
+              onPress={() => {
+                onSave(settings);
+                onClose();
+              }}
+              accessibilityRole="button"
+            >
+              <Text style={styles.primaryButtonText}>Save</Text>
+            </TouchableOpacity>
+          </View>
+        </Pressable>
+      </Pressable>
+    </Modal>
+  );
+}
+
+function createStyles(theme: Theme) {
+  return StyleSheet.create({
+    backdrop: {
+      flex: 1,
+      justifyContent: 'flex-end',
+      backgroundColor: 'rgba(0,0,0,0.4)',
+    },
+    sheet: {
+      ...theme.modernPanel,
+      borderTopLeftRadius: radius.xl,
+      borderTopRightRadius: radius.xl,
+      padding: spacing.lg,
+      gap: spacing.sm,
+      maxHeight: '85%',
+    },
+    title: {
+      ...theme.typography.h2,
+      marginBottom: spacing.xs,
+    },
+    fields: {
+      gap: spacing.xs,
+    },
+    label: {
+      ...theme.typography.label,
+      marginTop: spacing.sm,
+    },
+    input: {
+      ...theme.input,
+    },
+    multiline: {
+      minHeight: 72,
+      textAlignVertical: 'top',
+    },
+    row: {
+      flexDirection: 'row',
+      gap: spacing.md,
+    },
+    cell: {
+      flex: 1,
+      gap: spacing.xs,
+    },
+    section: {
+      ...theme.typography.h2,
+      fontSize: 16,
+      marginTop: spacing.lg,
+    },
+    hint: {
+      ...theme.typography.caption,
+    },
+    link: {
+      ...theme.typography.label,
+      color: theme.colors.primary,
+      paddingVertical: spacing.xs,
+    },
+    chips: {
+      flexDirection: 'row',
+      flexWrap: 'wrap',
+      gap: spacing.sm,
+    },
+    chip: {
+      paddingHorizontal: spacing.md,
+      paddingVertical: spacing.sm,
+      borderRadius: radius.full,
+      borderWidth: 1,
+      borderColor: theme.colors.border,
+    },
+    chipActive: {
+      backgroundColor: theme.colors.primary,
+      borderColor: theme.colors.primary,
+    },
+    chipText: {
+      ...theme.typography.label,
+    },
+    chipTextActive: {
+      color: theme.colors.primaryForeground,
+    },
+    error: {
+      ...theme.typography.caption,
+      color: theme.colors.destructive,
+      marginTop: spacing.sm,
+    },
+    actions: {
+      flexDirection: 'row',
+      gap: spacing.sm,
+      marginTop: spacing.sm,
+    },
+    secondaryButton: {
+      flex: 1,
+      padding: spacing.md,
+      borderRadius: radius.lg,
+      borderWidth: 1,
+      borderColor: theme.colors.border,
+      backgroundColor: theme.colors.secondary,
+      alignItems: 'center',
+    },
+    secondaryButtonText: {
+      ...theme.typography.label,
+    },
+    primaryButton: {
+      flex: 1,
+      padding: spacing.md,
+      borderRadius: radius.lg,
+      backgroundColor: theme.colors.primary,
+      alignItems: 'center',
+    },
+    primaryButtonText: {
+      color: theme.colors.primaryForeground,
+      fontWeight: '600',
+    },
+    disabled: {
+      opacity: 0.5,
+    },
+  });
+}
@@ -0,0 +1,53 @@
+/**
+ * Small status dot (plus latency) for the connection to the configured server
+ */
+import { TouchableOpacity, Text, View } from 'react-native';
+import { useTheme } from './ThemeProvider';
+import { ConnectionState } from '../store/connection';
+
+interface ConnectionIndicatorProps {
+  connection: ConnectionState;
+  /** Tapping the indicator re-checks the connection */
+  onPress?: () => void;
+}
+
+const STATUS_COLORS = {
+  reachable: '#22C55E',
+  unauthorized: '#F59E0B',
+  unreachable: '#EF4444',
+} as const;
+
+const STATUS_LABELS = {
+  unknown: 'Connection not checked yet',
+  reachable: 'Server reachable',
+  unauthorized: 'Server rejected the API key',
+  unreachable: 'Server unreachable',
+} as const;
+
+export function ConnectionIndicator({ connection, onPress }: ConnectionIndicatorProps) {
+  const { theme } = useTheme();
+  const { status, latencyMs, checking } = connection;
+  const color = status === 'unknown' ? theme.colors.mutedForeground : STATUS_COLORS[status];
+  const latency = status === 'reachable' && latencyMs !== undefined ? `${latencyMs}ms` : '';
+
+  return (
+    <TouchableOpacity
+      onPress={onPress}
+      accessibilityRole="button"
+      accessibilityLabel={`${STATUS_LABELS[status]}${latency ? `, ${latency}` : ''}. Tap to check again`}
+      style={{ flexDirection: 'row', alignItems: 'center', marginRight: 4 }}
+    >
+      <View
+        style={{
+          width: 8,
+          height: 8,
+          borderRadius: 4,
+          backgroundColor: color,
+          opacity: checking ? 0.5 : 1,
+          marginRight: latency ? 3 : 0,
+        }}
+      />
+      {!!latency && <Text style={{ ...theme.typography.caption }}>{latency} · </Text>}
+    </TouchableOpacity>
+  );
+}
@@ -0,0 +1,165 @@
+/**
+ * Chat bubble for a failed request, with actions that fit the kind of failure
+ */
+import { useEffect, useMemo, useState } from 'react';
+import { View, Text, TouchableOpacity, StyleSheet } from 'react-native';
+import { useTheme } from './ThemeProvider';
+import { spacing, radius, Theme } from './theme';
+import { MessageError } from '../types/session';
+import { ApiErrorKind } from '../lib/errors';
+
+interface ErrorBubbleProps {
+  error: MessageError;
+  /** Left out where sending again isn't possible, which hides the Retry button */
+  onRetry?: () => void;
+  onOpenSettings: () => void;
+  onChooseModel: () => void;
+  onNewChat: () => void;
+}
+
+type Action = 'retry' | 'settings' | 'model' | 'newChat';
+
+const COPY: Record<ApiErrorKind, { title: string; hint: string; actions: Action[] }> = {
+  authentication: {
+    title: '🔑 Authentication failed',
+    hint: 'The server rejected the API key for this profile.',
+    actions: ['settings'],
+  },
+  rate_limit: {
+    title: '⏳ Rate limited',
+    hint: 'The server is receiving too many requests.',
+    actions: ['retry'],
+  },
+  model_not_found: {
+    title: '🤖 Model not available',
+    hint: 'The selected model does not exist on this server.',
+    actions: ['model', 'settings'],
+  },
+  context_length: {
+    title: '📏 Conversation too long',
+    hint: "This chat no longer fits in the model's context window.",
+    actions: ['newChat'],
+  },
+  server: {
+    title: '⚠️ Server error',
+    hint: 'The server failed to handle the request.',
+    actions: ['retry'],
+  },
+  network: {
+    title: "📡 Can't reach the server",
+    hint: 'Check your connection and the server URL.',
+    actions: ['retry', 'settings'],
+  },
+  unknown: {
+    title: '⚠️ Request failed',
+    hint: '',
+    actions: ['retry'],
+  },
+};
+
+/** Seconds left until `retryAt`, ticking once a second while positive */
+function useCountdown(retryAt?: number): number {
+  const remaining = () => (retryAt ? Math.max(0, Math.ceil((retryAt - Date.now()) / 1000)) : 0);
+  const [seconds, setSeconds] = useState(remaining);
+  useEffect(() => {
+    setSeconds(remaining());
+    if (!retryAt || retryAt <= Date.now()) return;
+    const timer = setInterval(() => {
+      const left = remaining();
+      setSeconds(left);
+      if (left <= 0) clearInterval(timer);
+    }, 1000);
+    return () => clearInterval(timer);
+  }, [retryAt]);
+  return seconds;
+}
+
+export function ErrorBubble({ error, onRetry, onOpenSettings, onChooseModel, onNewChat }: ErrorBubbleProps) {
+  const { theme } = useTheme();
+  const styles = useMemo(() => createStyles(theme), [theme]);
+  const copy = COPY[error.kind] ?? COPY.unknown;
+  const waitSeconds = useCountdown(error.retryAt);
+
+  const actions = copy.actions.filter((action) => action !== 'retry' || onRetry);
+  const buttons: Record<Action, { label: string; onPress: () => void; disabled?: boolean }> = {
+    retry: {
+      label: waitSeconds > 0 ? `Retry in ${waitSeconds}s` : 'Retry',
+      onPress: () => onRetry?.(),
+      disabled: waitSeconds > 0,
+    },
+    settings: { label: 'Open settings', onPress: onOpenSettings },
+    model: { label: 'Choose model', onPress: onChooseModel },
+    newChat: { label: 'New chat', onPress: onNewChat },
+  };
+
+  return (
+    <View style={styles.container} accessibilityRole="alert">
+      <Text style={styles.title}>{copy.title}</Text>
+      {!!copy.hint && <Text style={styles.hint}>{copy.hint}</Text>}
+      <Text style={styles.detail} numberOfLines={4} selectable>
+        {error.message}
+      </Text>
+      {actions.length > 0 && <View style={styles.actions}>
+        {actions.map((action) => {
+          const b = buttons[action];
+          return (
+            <TouchableOpacity
+              key={action}
+              style={[styles.action, b.disabled && styles.actionDisabled]}
+              onPress={b.onPress}
+              disabled={b.disabled}
+              accessibilityRole="button"
+              accessibilityLabel={b.label}
+            >
+              <Text style={styles.actionText}>{b.label}</Text>
+            </TouchableOpacity>
+          );
+        })}
+      </View>}
+    </View>
+  );
+}
+
+function createStyles(theme: Theme) {
+  return StyleSheet.create({
+    container: {
+      borderLeftWidth: 3,
+      borderLeftColor: theme.colors.destructive,
+      paddingLeft: spacing.sm,
+    },
+    title: {
+      ...theme.typography.label,
+      fontSize: 14,
+    },
+    hint: {
+      ...theme.typography.caption,
+      marginTop: 2,
+    },
+    detail: {
+      fontSize: 12,
+      color: theme.colors.mutedForeground,
+      marginTop: spacing.xs,
+    },
+    actions: {
+      flexDirection: 'row',
+      flexWrap: 'wrap',
+      gap: spacing.sm,
+      marginTop: spacing.sm,
+    },
+    action: {
+      paddingHorizontal: spacing.md,
+      paddingVertical: spacing.xs,
+      borderRadius: radius.lg,
+      borderWidth: 1,
+      borderColor: theme.colors.border,
+      backgroundColor: theme.colors.muted,
+    },
+    actionDisabled: {
+      opacity: 0.5,
+    },
+    actionText: {
+      ...theme.typography.label,
+      fontSize: 13,
+    },
+  });
+}
@@ -0,0 +1,81 @@
+/**
+ * Row of image thumbnails for message bubbles and the pending-attachment strip
+ */
+import { useMemo } from 'react';
+import { View, Text, Image, TouchableOpacity, StyleSheet } from 'react-native';
+import { useTheme } from './ThemeProvider';
+import { spacing, radius, Theme } from './theme';
+import { ImageAttachment } from '../types/session';
+
+interface ImageThumbnailsProps {
+  images: ImageAttachment[];
+  size?: number;
+  onPress?: (image: ImageAttachment) => void;
+  /** Shows a remove badge on each thumbnail when set */
+  onRemove?: (image: ImageAttachment) => void;
+}
+
+export function ImageThumbnails({ images, size = 96, onPress, onRemove }: ImageThumbnailsProps) {
+  const { theme } = useTheme();
+  const styles = useMemo(() => createStyles(theme), [theme]);
+  if (images.length === 0) return null;
+
+  return (
+    <View style={styles.row}>
+      {images.map((image) => (
+        <View key={image.id}>
+          <TouchableOpacity
+            disabled={!onPress}
+            onPress={() => onPress?.(image)}
+            accessibilityRole="imagebutton"
+            accessibilityLabel="Attached photo"
+          >
+            <Image source={{ uri: image.uri }} style={[styles.thumb, { width: size, height: size }]} resizeMode="cover" />
+          </TouchableOpacity>
+          {onRemove && (
+            <TouchableOpacity
+              style={styles.remove}
+              onPress={() => onRemove(image)}
+              accessibilityRole="button"
+              accessibilityLabel="Remove photo"
+              hitSlop={8}
+            >
+              <Text style={styles.removeText}>✕</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+      ))}
+    </View>
+  );
+}
+
+function createStyles(theme: Theme) {
+  return StyleSheet.create({
+    row: {
+      flexDirection: 'row',
+      flexWrap: 'wrap',
+      gap: spacing.sm,
+      marginVertical: spacing.xs,
+    },
+    thumb: {
+      borderRadius: radius.md,
+      backgroundColor: theme.colors.muted,
+    },
+    remove: {
+      position: 'absolute',
+      top: -6,
+      right: -6,
+      width: 22,
+      height: 22,
+      borderRadius: 11,
+      backgroundColor: theme.colors.foreground,
+      alignItems: 'center',
+      justifyContent: 'center',
+    },
+    removeText: {
+      color: theme.colors.background,
+      fontSize: 12,
+      fontWeight: '700',
+    },
+  });
+}
@@ -0,0 +1,177 @@
+/**
+ * Searchable model picker backed by the server's /models endpoint.
+ * The search text can always be used as a custom model name for servers without /models.
+ */
+import { useMemo, useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  FlatList,
+  Modal,
+  StyleSheet,
+  ActivityIndicator,
+} from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { useTheme } from './ThemeProvider';
+import { spacing, radius, Theme } from './theme';
+import { useModelList } from '../store/models';
+import { ServerConnection } from '../lib/openaiClient';
+
+interface ModelPickerProps {
+  visible: boolean;
+  server: ServerConnection;
+  /** Currently selected model, highlighted in the list */
+  value?: string;
+  onSelect: (model: string) => void;
+  onClose: () => void;
+}
+
+export function ModelPicker({ visible, server, value, onSelect, onClose }: ModelPickerProps) {
+  const { theme } = useTheme();
+  const insets = useSafeAreaInsets();
+  const styles = useMemo(() => createStyles(theme), [theme]);
+  const [query, setQuery] = useState('');
+  const { models, loading, error, refresh } = useModelList(server, visible);
+
+  const trimmed = query.trim();
+  const filtered = useMemo(() => {
+    const q = trimmed.toLowerCase();
+    return q ? models.filter((m) => m.id.toLowerCase().includes(q)) : models;
+  }, [models, trimmed]);
+  const exactMatch = models.some((m) => m.id === trimmed);
+
+  const choose = (model: string) => {
+    setQuery('');
+    onSelect(model);
+    onClose();
+  };
+
+  return (
+    <Modal visible={visible} animationType="slide" onRequestClose={onClose}>
+      <View style={[styles.container, { paddingTop: insets.top + spacing.md, paddingBottom: insets.bottom }]}>
+        <View style={styles.header}>
+          <Text style={styles.title}>Select Model</Text>
+          <TouchableOpacity onPress={refresh} disabled={loading} accessibilityRole="button" accessibilityLabel="Refresh models">
+            <Text style={styles.headerAction}>{loading ? '…' : '↻'}</Text>
+          </TouchableOpacity>
+          <TouchableOpacity onPress={onClose} accessibilityRole="button" accessibilityLabel="Close model picker">
+            <Text style={styles.headerAction}>✕</Text>
+          </TouchableOpacity>
+        </View>
+
+        <TextInput
+          style={styles.search}
+          value={query}
+          onChangeText={setQuery}
+          placeholder="Search or enter a model name"
+          placeholderTextColor={theme.colors.mutedForeground}
+          autoCapitalize="none"
+          autoCorrect={false}
+          returnKeyType="done"
+          onSubmitEditing={() => trimmed && choose(trimmed)}
+        />
+
+        {!!trimmed && !exactMatch && (
+          <TouchableOpacity style={styles.customRow} onPress={() => choose(trimmed)}>
+            <Text style={styles.customText}>Use custom model “{trimmed}”</Text>
+          </TouchableOpacity>
+        )}
+
+        {!!error && (
+          <Text style={styles.error}>
+            Couldn't load models from this server. You can still enter a model name above.
+          </Text>
+        )}
+
+        {loading && models.length === 0 ? (
+          <ActivityIndicator style={{ marginTop: spacing.lg }} color={theme.colors.foreground} />
+        ) : (
+          <FlatList
+            data={filtered}
+            keyExtractor={(item) => item.id}
+            keyboardShouldPersistTaps="handled"
+            renderItem={({ item }) => (
+              <TouchableOpacity
+                style={[styles.row, item.id === value && styles.rowActive]}
+                onPress={() => choose(item.id)}
+              >
+                <Text style={styles.rowText} numberOfLines={1}>{item.id}</Text>
+                {!!item.ownedBy && <Text style={styles.rowMeta}>{item.ownedBy}</Text>}
+              </TouchableOpacity>
+            )}
+            ListEmptyComponent={
+              !error ? <Text style={styles.empty}>{trimmed ? 'No matching models' : 'No models found'}</Text> : null
+            }
+          />
+        )}
+      </View>
+    </Modal>
+  );
+}
+
+function createStyles(theme: Theme) {
+  return StyleSheet.create({
+    container: {
+      flex: 1,
+      backgroundColor: theme.colors.background,
+      paddingHorizontal: spacing.lg,
+    },
+    header: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: spacing.md,
+      marginBottom: spacing.md,
+    },
+    title: {
+      ...theme.typography.h2,
+      flex: 1,
+    },
+    headerAction: {
+      fontSize: 20,
+      color: theme.colors.foreground,
+      paddingHorizontal: spacing.xs,
+    },
+    search: {
+      ...theme.input,
+      marginBottom: spacing.sm,
+    },
+    customRow: {
+      padding: spacing.md,
+      borderRadius: radius.lg,
+      backgroundColor: theme.colors.secondary,
+      marginBottom: spacing.sm,
+    },
+    customText: {
+      ...theme.typography.body,
+      fontWeight: '500',
+    },
+    error: {
+      ...theme.typography.caption,
+      color: theme.colors.destructive,
+      marginBottom: spacing.sm,
+    },
+    row: {
+      paddingVertical: spacing.md,
+      paddingHorizontal: spacing.md,
+      borderBottomWidth: theme.hairline,
+      borderBottomColor: theme.colors.border,
+    },
+    rowActive: {
+      backgroundColor: theme.colors.secondary,
+      borderRadius: radius.lg,
+    },
+    rowText: {
+      ...theme.typography.body,
+    },
+    rowMeta: {
+      ...theme.typography.caption,
+    },
+    empty: {
+      ...theme.typography.bodyMuted,
+      textAlign: 'center',
+      marginTop: spacing.lg,
+    },
+  });
+}
@@ -0,0 +1,130 @@
+/**
+ * Bottom sheet for starting a new chat with a persona ("New chat with…")
+ */
+import { useMemo } from 'react';
+import { Text, TouchableOpacity, Modal, StyleSheet, Pressable, ScrollView } from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { useTheme } from './ThemeProvider';
+import { spacing, radius, Theme } from './theme';
+import { Persona } from '../store/personas';
+
+interface PersonaPickerProps {
+  visible: boolean;
+  personas: Persona[];
+  /** Called with null for a plain chat using the profile's defaults */
+  onSelect: (persona: Persona | null) => void;
+  onClose: () => void;
+  /** Optional shortcut to the persona library */
+  onManage?: () => void;
+}
+
+export function PersonaPicker({ visible, personas, onSelect, onClose, onManage }: PersonaPickerProps) {
+  const { theme } = useTheme();
+  const insets = useSafeAreaInsets();
+  const styles = useMemo(() => createStyles(theme), [theme]);
+
+  const choose = (persona: Persona | null) => {
+    onSelect(persona);
+    onClose();
+  };
+
+  return (
+    <Modal visible={visible} transparent animationType="fade" onRequestClose={onClose}>
+      <Pressable style={styles.backdrop} onPress={onClose}>
+        <Pressable style={[styles.sheet, { paddingBottom: insets.bottom + spacing.md }]}>
+          <Text style={styles.title}>New Chat With…</Text>
+          <ScrollView contentContainerStyle={styles.list}>
+            <TouchableOpacity
+              style={styles.row}
+              onPress={() => choose(null)}
+              accessibilityRole="button"
+              accessibilityLabel="New chat with the default settings"
+            >
+              <Text style={styles.rowTitle}>Default</Text>
+              <Text style={styles.rowMeta}>Profile's model and chat settings</Text>
+            </TouchableOpacity>
+            {personas.map((persona) => (
+              <TouchableOpacity
+                key={persona.id}
+                style={styles.row}
+                onPress={() => choose(persona)}
+                accessibilityRole="button"
+                accessibilityLabel={`New chat with ${persona.name}`}
+              >
+                <Text style={styles.rowTitle}>{persona.name}</Text>
+                <Text style={styles.rowMeta} numberOfLines={2}>
+                  {persona.model ? `${persona.model} · ` : ''}{persona.systemPrompt}
+                </Text>
+              </TouchableOpacity>
+            ))}
+            {personas.length === 0 && (
+              <Text style={styles.empty}>No personas yet. Create one to reuse a system prompt, model and voice.</Text>
+            )}
+          </ScrollView>
+          {onManage && (
+            <TouchableOpacity
+              style={styles.manage}
+              onPress={() => {
+                onClose();
+                onManage();
+              }}
+            >
+              <Text style={styles.manageText}>Manage personas…</Text>
+            </TouchableOpacity>
+          )}
+        </Pressable>
+      </Pressable>
+    </Modal>
+  );
+}
+
+function createStyles(theme: Theme) {
+  return StyleSheet.create({
+    backdrop: {
+      flex: 1,
+      justifyContent: 'flex-end',
+      backgroundColor: 'rgba(0,0,0,0.4)',
+    },
+    sheet: {
+      ...theme.modernPanel,
+      borderTopLeftRadius: radius.xl,
+      borderTopRightRadius: radius.xl,
+      padding: spacing.lg,
+      gap: spacing.sm,
+      maxHeight: '80%',
+    },
+    title: {
+      ...theme.typography.h2,
+      marginBottom: spacing.xs,
+    },
+    list: {
+      gap: spacing.sm,
+    },
+    row: {
+      padding: spacing.md,
+      borderRadius: radius.lg,
+      borderWidth: 1,
+      borderColor: theme.colors.border,
+    },
+    rowTitle: {
+      ...theme.typography.body,
+      fontWeight: '600',
+    },
+    rowMeta: {
+      ...theme.typography.caption,
+    },
+    empty: {
+      ...theme.typography.caption,
+      textAlign: 'center',
+      paddingVertical: spacing.sm,
+    },
+    manage: {
+      alignItems: 'center',
+      paddingVertical: spacing.sm,
+    },
+    manageText: {
+      ...theme.typography.label,
+      color: theme.colors.mutedForeground,
+    },
+  });
+}
@@ -0,0 +1,111 @@
+/**
+ * Bottom sheet for switching the active server profile from the chat screen
+ */
+import { useMemo } from 'react';
+import { View, Text, TouchableOpacity, Modal, StyleSheet, Pressable } from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { useTheme } from './ThemeProvider';
+import { spacing, radius, Theme } from './theme';
+import { ServerProfile } from '../store/config';
+
+interface ProfileSwitcherProps {
+  visible: boolean;
+  profiles: ServerProfile[];
+  activeProfileId: string;
+  onSelect: (profileId: string) => void;
+  onClose: () => void;
+  /** Optional shortcut to the full profile editor */
+  onManage?: () => void;
+}
+
+export function ProfileSwitcher({ visible, profiles, activeProfileId, onSelect, onClose, onManage }: ProfileSwitcherProps) {
+  const { theme } = useTheme();
+  const insets = useSafeAreaInsets();
+  const styles = useMemo(() => createStyles(theme), [theme]);
+
+  return (
+    <Modal visible={visible} transparent animationType="fade" onRequestClose={onClose}>
+      <Pressable style={styles.backdrop} onPress={onClose}>
+        <Pressable style={[styles.sheet, { paddingBottom: insets.bottom + spacing.md }]}>
+          <Text style={styles.title}>Server Profile</Text>
+          {profiles.map((profile) => {
+            const active = profile.id === activeProfileId;
+            return (
+              <TouchableOpacity
+                key={profile.id}
+                style={[styles.row, active && styles.rowActive]}
+                onPress={() => {
+                  onSelect(profile.id);
+                  onClose();
+                }}
+                accessibilityRole="button"
+                accessibilityLabel={`Switch to profile ${profile.name}`}
+              >
+                <Text style={styles.rowTitle}>{active ? '● ' : ''}{profile.name || 'Untitled'}</Text>
+                <Text style={styles.rowMeta} numberOfLines={1}>
+                  {profile.model} · {profile.baseUrl}
+                </Text>
+              </TouchableOpacity>
+            );
+          })}
+          {onManage && (
+            <TouchableOpacity
+              style={styles.manage}
+              onPress={() => {
+                onClose();
+                onManage();
+              }}
+            >
+              <Text style={styles.manageText}>Manage profiles…</Text>
+            </TouchableOpacity>
+          )}
+        </Pressable>
+      </Pressable>
+    </Modal>
+  );
+}
+
+function createStyles(theme: Theme) {
+  return StyleSheet.create({
+    backdrop: {
+      flex: 1,
+      justifyContent: 'flex-end',
+      backgroundColor: 'rgba(0,0,0,0.4)',
+    },
+    sheet: {
+      ...theme.modernPanel,
+      borderTopLeftRadius: radius.xl,
+      borderTopRightRadius: radius.xl,
+      padding: spacing.lg,
+      gap: spacing.sm,
+    },
+    title: {
+      ...theme.typography.h2,
+      marginBottom: spacing.xs,
+    },
+    row: {
+      padding: spacing.md,
+      borderRadius: radius.lg,
+      borderWidth: 1,
+      borderColor: theme.colors.border,
+    },
+    rowActive: {
+      borderColor: theme.colors.primary,
+    },
+    rowTitle: {
+      ...theme.typography.body,
+      fontWeight: '600',
+    },
+    rowMeta: {
+      ...theme.typography.caption,
+    },
+    manage: {
+      alignItems: 'center',
+      paddingVertical: spacing.sm,
+    },
+    manageText: {
+      ...theme.typography.label,
+      color: theme.colors.mutedForeground,
+    },
+  });
+}
@@ -0,0 +1,101 @@
+/**
+ * Collapsible card showing a tool the assistant ran, its arguments and its result
+ */
+import { useMemo, useState } from 'react';
+import { View, Text, TouchableOpacity, StyleSheet, Platform } from 'react-native';
+import { useTheme } from './ThemeProvider';
+import { spacing, radius, Theme } from './theme';
+import { ToolCall } from '../types/session';
+
+interface ToolCallCardProps {
+  call: ToolCall;
+  /** Tool output, undefined while the tool is still running */
+  result?: string;
+}
+
+/** Pretty-print JSON when possible; partial or invalid JSON is shown as-is */
+function formatJson(raw: string): string {
+  if (!raw) return '';
+  try {
+    return JSON.stringify(JSON.parse(raw), null, 2);
+  } catch {
+    return raw;
+  }
+}
+
+export function ToolCallCard({ call, result }: ToolCallCardProps) {
+  const { theme } = useTheme();
+  const styles = useMemo(() => createStyles(theme), [theme]);
+  const [expanded, setExpanded] = useState(false);
+  const done = result !== undefined;
+
+  return (
+    <View style={styles.card}>
+      <TouchableOpacity
+        style={styles.header}
+        onPress={() => setExpanded((e) => !e)}
+        accessibilityRole="button"
+        accessibilityLabel={`Tool ${call.name || 'call'}, ${expanded ? 'collapse' : 'expand'} details`}
+      >
+        <Text style={styles.title} numberOfLines={1}>
+          🔧 {call.name || 'tool'}
+        </Text>
+        <Text style={styles.status}>{done ? '✓' : '…'} {expanded ? '▾' : '▸'}</Text>
+      </TouchableOpacity>
+      {expanded && (
+        <View style={styles.body}>
+          <Text style={styles.sectionLabel}>Arguments</Text>
+          <Text style={styles.code} selectable>
+            {formatJson(call.arguments) || '{}'}
+          </Text>
+          <Text style={styles.sectionLabel}>Result</Text>
+          <Text style={styles.code} selectable>
+            {done ? formatJson(result) || '(empty)' : 'Running…'}
+          </Text>
+        </View>
+      )}
+    </View>
+  );
+}
+
+function createStyles(theme: Theme) {
+  return StyleSheet.create({
+    card: {
+      borderWidth: 1,
+      borderColor: theme.colors.border,
+      borderRadius: radius.lg,
+      backgroundColor: theme.colors.muted,
+      marginBottom: spacing.sm,
+    },
+    header: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      justifyContent: 'space-between',
+      paddingHorizontal: spacing.md,
+      paddingVertical: spacing.sm,
+      gap: spacing.sm,
+    },
+    title: {
+      ...theme.typography.label,
+      fontSize: 14,
+      flex: 1,
+    },
+    status: {
+      ...theme.typography.caption,
+    },
+    body: {
+      paddingHorizontal: spacing.md,
+      paddingBottom: spacing.sm,
+    },
+    sectionLabel: {
+      ...theme.typography.caption,
+      marginTop: spacing.xs,
+      marginBottom: 2,
+    },
+    code: {
+      fontSize: 12,
+      color: theme.colors.foreground,
+      fontFamily: Platform.OS === 'ios' ? 'Menlo' : 'monospace',
+    },
+  });
+}
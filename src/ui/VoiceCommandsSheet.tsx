@@ -0,0 +1,163 @@
+/**
+ * Bottom sheet for changing the phrases that trigger each voice command.
+ * Phrases are comma-separated; an empty field falls back to the default phrases.
+ */
+import { useEffect, useMemo, useState } from 'react';
+import { Text, TextInput, TouchableOpacity, View, Modal, StyleSheet, Pressable, ScrollView } from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { useTheme } from './ThemeProvider';
+import { spacing, radius, Theme } from './theme';
+import { VOICE_COMMANDS, VoiceCommandId, VoiceCommandPhrases } from '../lib/voiceCommands';
+
+interface VoiceCommandsSheetProps {
+  visible: boolean;
+  value?: VoiceCommandPhrases;
+  onSave: (phrases: VoiceCommandPhrases | undefined) => void;
+  onClose: () => void;
+}
+
+const COMMAND_IDS = Object.keys(VOICE_COMMANDS) as VoiceCommandId[];
+
+type FormState = Record<VoiceCommandId, string>;
+
+function toForm(value: VoiceCommandPhrases = {}): FormState {
+  return Object.fromEntries(COMMAND_IDS.map((id) => [id, (value[id] ?? []).join(', ')])) as FormState;
+}
+
+/** Only commands whose phrases differ from the defaults are stored */
+function fromForm(form: FormState): VoiceCommandPhrases | undefined {
+  const phrases: VoiceCommandPhrases = {};
+  for (const id of COMMAND_IDS) {
+    const list = form[id].split(',').map((p) => p.trim()).filter(Boolean);
+    if (list.length && list.join(',') !== VOICE_COMMANDS[id].phrases.join(',')) phrases[id] = list;
+  }
+  return Object.keys(phrases).length ? phrases : undefined;
+}
+
+export function VoiceCommandsSheet({ visible, value, onSave, onClose }: VoiceCommandsSheetProps) {
+  const { theme } = useTheme();
+  const insets = useSafeAreaInsets();
+  const styles = useMemo(() => createStyles(theme), [theme]);
+  const [form, setForm] = useState<FormState>(() => toForm(value));
+
+  // Start from the saved phrases each time the sheet opens
+  useEffect(() => {
+    if (visible) setForm(toForm(value));
+  }, [visible]);
+
+  return (
+    <Modal visible={visible} transparent animationType="fade" onRequestClose={onClose}>
+      <Pressable style={styles.backdrop} onPress={onClose}>
+        <Pressable style={[styles.sheet, { paddingBottom: insets.bottom + spacing.md }]}>
+          <Text style={styles.title}>Voice Commands</Text>
+          <Text style={styles.hint}>
+            Say one of these phrases on its own and the app acts on it instead of sending it. Separate phrases with commas.
+          </Text>
+          <ScrollView keyboardShouldPersistTaps="handled" contentContainerStyle={styles.fields}>
+            {COMMAND_IDS.map((id) => (
+              <View key={id}>
+                <Text style={styles.label}>{VOICE_COMMANDS[id].label}</Text>
+                <Text style={styles.hint}>{VOICE_COMMANDS[id].description}</Text>
+                <TextInput
+                  style={styles.input}
+                  value={form[id]}
+                  onChangeText={(text) => setForm((prev) => ({ ...prev, [id]: text }))}
+                  placeholder={VOICE_COMMANDS[id].phrases.join(', ')}
+                  placeholderTextColor={theme.colors.mutedForeground}
+                  autoCapitalize="none"
+                  autoCorrect={false}
+                  accessibilityLabel={`Phrases for ${VOICE_COMMANDS[id].label}`}
+                />
+              </View>
+            ))}
+          </ScrollView>
+
+          <View style={styles.actions}>
+            <TouchableOpacity
+              style={styles.secondaryButton}
+              onPress={() => setForm(toForm())}
+              accessibilityRole="button"
+              accessibilityLabel="Use the default phrases for every command"
+            >
+              <Text style={styles.secondaryButtonText}>Use Defaults</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={styles.primaryButton}
+              onPress={() => {
+                onSave(fromForm(form));
+                onClose();
+              }}
+              accessibilityRole="button"
+            >
+              <Text style={styles.primaryButtonText}>Save</Text>
+            </TouchableOpacity>
+          </View>
+        </Pressable>
+      </Pressable>
+    </Modal>
+  );
+}
+
+function createStyles(theme: Theme) {
+  return StyleSheet.create({
+    backdrop: {
+      flex: 1,
+      justifyContent: 'flex-end',
+      backgroundColor: 'rgba(0,0,0,0.4)',
+    },
+    sheet: {
+      ...theme.modernPanel,
+      borderTopLeftRadius: radius.xl,
+      borderTopRightRadius: radius.xl,
+      padding: spacing.lg,
+      gap: spacing.sm,
+      maxHeight: '85%',
+    },
+    title: {
+      ...theme.typography.h2,
+      marginBottom: spacing.xs,
+    },
+    fields: {
+      gap: spacing.xs,
+    },
+    label: {
+      ...theme.typography.label,
+      marginTop: spacing.sm,
+    },
+    hint: {
+      ...theme.typography.caption,
+      marginBottom: spacing.xs,
+    },
+    input: {
+      ...theme.input,
+    },
+    actions: {
+      flexDirection: 'row',
+      gap: spacing.sm,
+      marginTop: spacing.sm,
+    },
+    secondaryButton: {
+      flex: 1,
+      padding: spacing.md,
+      borderRadius: radius.lg,
+      borderWidth: 1,
+      borderColor: theme.colors.border,
+      backgroundColor: theme.colors.secondary,
+      alignItems: 'center',
+    },
+    secondaryButtonText: {
+      ...theme.typography.label,
+    },
+    primaryButton: {
+      flex: 1,
+      padding: spacing.md,
+      borderRadius: radius.lg,
+      backgroundColor: theme.colors.primary,
+      alignItems: 'center',
+    },
+    primaryButtonText: {
+      color: theme.colors.primaryForeground,
+      fontWeight: '600',
+    },
+  });
+}
@@ -0,0 +1,141 @@
+/**
+ * Inline dropdown of the device's text-to-speech voices, for sheets that can't open another modal
+ */
+import { useMemo, useState } from 'react';
+import { View, Text, TouchableOpacity, ScrollView, ActivityIndicator, StyleSheet } from 'react-native';
+import { useTheme } from './ThemeProvider';
+import { spacing, radius, Theme } from './theme';
+import { sameLanguage, useVoices, voiceLabel } from '../lib/voices';
+
+interface VoicePickerProps {
+  /** expo-speech voice identifier; unset means the default voice */
+  value?: string;
+  /** Only voices for this language are listed, unless the user asks for all */
+  language?: string;
+  onChange: (voice: string | undefined) => void;
+  /** What the unset value is called, e.g. "Default: Samantha" */
+  defaultLabel?: string;
+}
+
+export function VoicePicker({ value, language, onChange, defaultLabel = 'System default' }: VoicePickerProps) {
+  const { theme } = useTheme();
+  const styles = useMemo(() => createStyles(theme), [theme]);
+  const { voices, ready } = useVoices();
+  const [open, setOpen] = useState(false);
+  const [allLanguages, setAllLanguages] = useState(false);
+
+  const selected = voices.find((v) => v.identifier === value);
+  const listed = language && !allLanguages ? voices.filter((v) => sameLanguage(v.language, language)) : voices;
+
+  const choose = (voice: string | undefined) => {
+    onChange(voice);
+    setOpen(false);
+  };
+
+  return (
+    <View>
+      <TouchableOpacity
+        style={[styles.field, open && styles.fieldOpen]}
+        onPress={() => setOpen((o) => !o)}
+        accessibilityRole="button"
+        accessibilityLabel={`Voice: ${selected ? voiceLabel(selected) : value || defaultLabel}. Tap to choose`}
+      >
+        <Text style={value ? styles.fieldText : styles.placeholder} numberOfLines={1}>
+          {selected ? voiceLabel(selected) : value || defaultLabel}
+        </Text>
+        <Text style={styles.fieldText}>{open ? '▴' : '▾'}</Text>
+      </TouchableOpacity>
+      {open && (
+        <View style={styles.list}>
+          {!ready ? (
+            <ActivityIndicator style={styles.loading} color={theme.colors.foreground} />
+          ) : (
+            <ScrollView nestedScrollEnabled keyboardShouldPersistTaps="handled">
+              <TouchableOpacity style={styles.row} onPress={() => choose(undefined)} accessibilityRole="button">
+                <Text style={[styles.rowText, !value && styles.rowTextActive]}>{defaultLabel}</Text>
+              </TouchableOpacity>
+              {listed.map((voice) => (
+                <TouchableOpacity
+                  key={voice.identifier}
+                  style={styles.row}
+                  onPress={() => choose(voice.identifier)}
+                  accessibilityRole="button"
+                >
+                  <Text style={[styles.rowText, voice.identifier === value && styles.rowTextActive]} numberOfLines={1}>
+                    {voiceLabel(voice)}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+              {listed.length === 0 && (
+                <Text style={styles.empty}>
+                  {voices.length === 0 ? 'No voices available on this device' : `No voices for ${language}`}
+                </Text>
+              )}
+            </ScrollView>
+          )}
+          {!!language && voices.length > 0 && (
+            <TouchableOpacity style={styles.row} onPress={() => setAllLanguages((a) => !a)} accessibilityRole="button">
+              <Text style={styles.link}>{allLanguages ? `Only ${language} voices` : 'Show all languages'}</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+      )}
+    </View>
+  );
+}
+
+function createStyles(theme: Theme) {
+  return StyleSheet.create({
+    field: {
+      ...theme.input,
+      flexDirection: 'row',
+      alignItems: 'center',
+      justifyContent: 'space-between',
+    },
+    fieldOpen: {
+      borderColor: theme.colors.primary,
+    },
+    fieldText: {
+      color: theme.colors.foreground,
+      fontSize: 16,
+      flexShrink: 1,
+    },
+    placeholder: {
+      color: theme.colors.mutedForeground,
+      fontSize: 16,
+      flexShrink: 1,
+    },
+    list: {
+      maxHeight: 240,
+      marginTop: spacing.xs,
+      borderWidth: 1,
+      borderColor: theme.colors.border,
+      borderRadius: radius.lg,
+      overflow: 'hidden',
+    },
+    loading: {
+      padding: spacing.md,
+    },
+    row: {
+      paddingHorizontal: spacing.md,
+      paddingVertical: spacing.sm,
+      borderBottomWidth: theme.hairline,
+      borderColor: theme.colors.border,
+    },
+    rowText: {
+      ...theme.typography.body,
+    },
+    rowTextActive: {
+      color: theme.colors.primary,
+      fontWeight: '600',
+    },
+    empty: {
+      ...theme.typography.caption,
+      padding: spacing.md,
+    },
+    link: {
+      ...theme.typography.label,
+      color: theme.colors.primary,
+    },
+  });
+}
@@ -0,0 +1,262 @@
+import { ReactNode, useMemo, useState } from 'react';
+import { Alert, AlertButton, Text, View } from 'react-native';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { act, fireEvent, render, screen } from '@testing-library/react-native';
+import ChatScreen from '../src/screens/ChatScreen';
+import { ConfigContext, useConfig } from '../src/store/config';
+import { SessionContext, useSessions } from '../src/store/sessions';
+import { ConnectionContext, useConnection } from '../src/store/connection';
+import { OutboxContext, useOutbox } from '../src/store/outbox';
+import { serverConnection } from '../src/lib/openaiClient';
+import { TransportContext } from '../src/lib/transport';
+import { ThemeProvider } from '../src/ui/ThemeProvider';
+import { FakeOpenAIServer, recordSSE } from './fakeServer';
+
+jest.mock('react-native-safe-area-context', () => require('react-native-safe-area-context/jest/mock').default);
+jest.mock('@react-navigation/elements', () => ({ useHeaderHeight: () => 0 }));
+jest.mock('../src/lib/earcons', () => ({ playEarcon: jest.fn() }));
+
+/** The providers App.tsx sets up, reading from the fake server instead of the network */
+function Providers({ children }: { children: ReactNode }) {
+  const cfg = useConfig();
+  const sessions = useSessions();
+  const outbox = useOutbox();
+  const connection = useConnection(serverConnection(cfg.config), cfg.ready);
+  if (!cfg.ready || !sessions.ready || !outbox.ready) return null;
+  return (
+    <ConfigContext.Provider value={cfg}>
+      <SessionContext.Provider value={sessions}>
+        <ConnectionContext.Provider value={connection}>
+          <OutboxContext.Provider value={outbox}>{children}</OutboxContext.Provider>
+        </ConnectionContext.Provider>
+      </SessionContext.Provider>
+    </ConfigContext.Provider>
+  );
+}
+
+/** ChatScreen with a stand-in navigation that renders the header buttons it sets */
+function ChatWithHeader() {
+  const [options, setOptions] = useState<{ headerRight?: () => ReactNode }>({});
+  const navigation = useMemo(() => ({
+    setOptions: (next: object) => setOptions((prev) => ({ ...prev, ...next })),
+    navigate: jest.fn(),
+    addListener: () => () => {},
+  }), []);
+  // Like a navigator, re-rendering the header doesn't re-render the screen
+  const chat = useMemo(() => <ChatScreen navigation={navigation} route={{ params: {} }} />, [navigation]);
+  // Stands in for navigating back to the chat list, which unmounts the screen
+  const [open, setOpen] = useState(true);
+  return (
+    <View>
+      {options.headerRight?.()}
+      <Text onPress={() => setOpen(false)}>Leave chat</Text>
+      {open && chat}
+    </View>
+  );
+}
+
+/** Let `ms` of fake time pass, running the stream chunks, retries and re-renders due in it */
+async function advance(ms = 100) {
+  await act(() => jest.advanceTimersByTimeAsync(ms));
+}
+
+async function renderChat(server: FakeOpenAIServer) {
+  render(
+    <ThemeProvider>
+      <TransportContext.Provider value={server}>
+        <Providers>
+          <ChatWithHeader />
+        </Providers>
+      </TransportContext.Provider>
+    </ThemeProvider>,
+  );
+  await advance();
+  // The connection check on mount reaches the fake server
+  expect(server.requests.some((r) => r.url.endsWith('/models'))).toBe(true);
+}
+
+async function sendMessage(text: string) {
+  fireEvent.changeText(screen.getByPlaceholderText('Type a message or hold the mic'), text);
+  fireEvent.press(screen.getByText('Send'));
+  await advance();
+}
+
+const chatRequests = (server: FakeOpenAIServer) => server.requests.filter((r) => r.url.endsWith('/chat/completions'));
+
+beforeEach(async () => {
+  jest.useFakeTimers();
+  await AsyncStorage.clear();
+  await AsyncStorage.setItem('app_config_v2', JSON.stringify({
+    profiles: [{ id: 'default', name: 'Fake', apiKey: '', baseUrl: 'http://fake/v1', model: 'fake-model' }],
+    activeProfileId: 'default',
+  }));
+});
+
+afterEach(() => {
+  jest.useRealTimers();
+});
+
+describe('ChatScreen against FakeOpenAIServer', () => {
+  it('sends a message and streams the reply into the chat', async () => {
+    const server = new FakeOpenAIServer();
+    const body = recordSSE(['Streaming', ' works', ' fine.']);
+    server.enqueue({ type: 'sse', body, chunkSize: body.indexOf('data:', 1), chunkDelayMs: 500 });
+    await renderChat(server);
+
+    await sendMessage('Does streaming work?');
+    expect(screen.getByText('Does streaming work?')).toBeTruthy();
+    expect(screen.getByText('Streaming')).toBeTruthy();
+    expect(screen.getByLabelText('Stop generating response')).toBeTruthy();
+
+    await advance(500);
+    expect(screen.getByText('Streaming works')).toBeTruthy();
+    await advance(2000);
+    expect(screen.getByText('Streaming works fine.')).toBeTruthy();
+    expect(screen.getByText('Send')).toBeTruthy();
+
+    const [request] = chatRequests(server);
+    expect(request.body).toMatchObject({
+      model: 'fake-model',
+      stream: true,
+      messages: [{ role: 'user', content: 'Does streaming work?' }],
+    });
+  });
+
+  it('starts a session only once the first message is sent', async () => {
+    const server = new FakeOpenAIServer();
+    await renderChat(server);
+    const storedSessions = async () => JSON.parse((await AsyncStorage.getItem('chat_sessions_v1')) ?? '[]');
+    expect(await storedSessions()).toEqual([]);
+
+    await sendMessage('Hello there');
+    expect(await storedSessions()).toEqual([expect.objectContaining({ title: 'Hello there' })]);
+  });
+
+  it('shows the Retry-After wait of a rate limit and retries when it is over', async () => {
+    const server = new FakeOpenAIServer();
+    server.enqueue({ type: 'error', status: 429, headers: { 'Retry-After': '3' }, body: { error: { message: 'Slow down' } } });
+    await renderChat(server);
+
+    await sendMessage('Hello?');
+    expect(screen.getByText('Slow down — retrying in 3s (attempt 1)')).toBeTruthy();
+    await advance(2800);
+    expect(chatRequests(server)).toHaveLength(1);
+
+    await advance(300);
+    expect(chatRequests(server)).toHaveLength(2);
+    expect(screen.getByText('Hello from the fake server.')).toBeTruthy();
+    expect(screen.queryByText('⏳ Rate limited')).toBeNull();
+  });
+
+  it('shows a typed error bubble and sends the message again from its Retry button', async () => {
+    const server = new FakeOpenAIServer();
+    server.enqueue({ type: 'error', status: 400, body: { error: { message: 'Unsupported parameter' } } });
+    await renderChat(server);
+
+    await sendMessage('Try this');
+    expect(screen.getByText('⚠️ Request failed')).toBeTruthy();
+    expect(screen.getByText('Request failed: 400 Unsupported parameter')).toBeTruthy();
+
+    fireEvent.press(screen.getByLabelText('Retry'));
+    await advance();
+    expect(screen.getByText('Hello from the fake server.')).toBeTruthy();
+    expect(screen.queryByText('⚠️ Request failed')).toBeNull();
+    const requests = chatRequests(server);
+    expect(requests).toHaveLength(2);
+    // The failed exchange is replaced, not sent along as history
+    expect((requests[1].body as { messages: unknown[] }).messages).toEqual([{ role: 'user', content: 'Try this' }]);
+  });
+
+  it('offers Retry only on the last failed exchange', async () => {
+    const server = new FakeOpenAIServer();
+    const failure = { type: 'error', status: 400, body: { error: { message: 'Unsupported parameter' } } } as const;
+    server.enqueue(failure, failure);
+    await renderChat(server);
+
+    await sendMessage('First');
+    await sendMessage('Second');
+    expect(screen.getAllByText('⚠️ Request failed')).toHaveLength(2);
+    expect(screen.getAllByLabelText('Retry')).toHaveLength(1);
+
+    fireEvent.press(screen.getByLabelText('Retry'));
+    await advance();
+    // The earlier exchange stays and goes along as history
+    expect(screen.getByText('First')).toBeTruthy();
+    const requests = chatRequests(server);
+    expect((requests[2].body as { messages: { content: string }[] }).messages.map((m) => m.content)).toContain('Second');
+  });
+
+  it('offers the settings for a rejected API key', async () => {
+    const server = new FakeOpenAIServer({ apiKey: 'not-this-one' });
+    await renderChat(server);
+
+    await sendMessage('Hi');
+    expect(screen.getByText('🔑 Authentication failed')).toBeTruthy();
+    expect(screen.getByLabelText('Open settings')).toBeTruthy();
+    expect(chatRequests(server)).toHaveLength(1);
+  });
+
+  it('keeps the streamed part of a reply when stopped', async () => {
+    const server = new FakeOpenAIServer();
+    const body = recordSSE(['First part.', ' Second part.', ' Never shown.']);
+    server.enqueue({ type: 'sse', body, chunkSize: body.indexOf('data:', 1), chunkDelayMs: 1000 });
+    await renderChat(server);
+
+    await sendMessage('Tell me a story');
+    expect(screen.getByText('First part.')).toBeTruthy();
+    fireEvent.press(screen.getByLabelText('Stop generating response'));
+    await advance(5000);
+
+    expect(screen.getByText('⏹ Stopped')).toBeTruthy();
+    expect(screen.getByText('First part.')).toBeTruthy();
+    expect(screen.getByText('Send')).toBeTruthy();
+  });
+
+  it('saves the message and the partial reply when the chat is left mid-response', async () => {
+    const server = new FakeOpenAIServer();
+    const body = recordSSE(['First part.', ' Second part.', ' Never shown.']);
+    server.enqueue({ type: 'sse', body, chunkSize: body.indexOf('data:', 1), chunkDelayMs: 1000 });
+    await renderChat(server);
+
+    await sendMessage('Tell me a story');
+    fireEvent.press(screen.getByText('Leave chat'));
+    await advance(5000);
+
+    const [session] = JSON.parse((await AsyncStorage.getItem('chat_sessions_v1'))!);
+    expect(session.messages).toEqual([
+      expect.objectContaining({ role: 'user', content: 'Tell me a story' }),
+      expect.objectContaining({ role: 'assistant', content: 'First part.', status: 'stopped' }),
+    ]);
+  });
+
+  it('warns when the chats cannot be saved', async () => {
+    const server = new FakeOpenAIServer();
+    // The AsyncStorage mock is a jest.fn already; swap its implementation and put it back after
+    const setItem = jest.mocked(AsyncStorage.setItem);
+    const store = setItem.getMockImplementation()!;
+    setItem.mockImplementation((key, value) =>
+      key === 'chat_sessions_v1' ? Promise.reject(new Error('Quota exceeded')) : store(key, value));
+    await renderChat(server);
+
+    await sendMessage('Will this stick?');
+    expect(screen.getByText(/Chats can't be saved/)).toBeTruthy();
+    setItem.mockImplementation(store);
+  });
+
+  it('runs the emergency stop from the header after confirmation', async () => {
+    const server = new FakeOpenAIServer();
+    server.killSwitchResult = { success: true, message: 'Stopped 3 agents', processesKilled: 3 };
+    const alert = jest.spyOn(Alert, 'alert').mockImplementation(() => {});
+    await renderChat(server);
+
+    fireEvent.press(screen.getByLabelText('Emergency stop - kill all agent sessions'));
+    const buttons = alert.mock.calls[0][2] as AlertButton[];
+    expect(server.requests.some((r) => r.url.endsWith('/emergency-stop'))).toBe(false);
+
+    buttons.find((b) => b.text === 'Stop All')!.onPress!();
+    await advance();
+    expect(alert).toHaveBeenLastCalledWith('Success', 'Stopped 3 agents');
+    expect(server.requests.filter((r) => r.url.endsWith('/emergency-stop'))).toHaveLength(1);
+    alert.mockRestore();
+  });
+});
@@ -0,0 +1,80 @@
+import { deleteAttachments, loadImageData } from '../src/lib/attachments';
+import { ChatMessage, ImageAttachment } from '../src/types/session';
+
+const mockReads: string[] = [];
+const mockDeleted: string[] = [];
+
+jest.mock('expo-image-picker', () => ({}));
+jest.mock('expo-image-manipulator', () => ({}));
+jest.mock('expo-file-system', () => ({
+  File: class {
+    uri: string;
+    exists = true;
+    constructor(uri: string) {
+      this.uri = uri;
+    }
+    async base64() {
+      mockReads.push(this.uri);
+      return `b64(${this.uri})`;
+    }
+    delete() {
+      mockDeleted.push(this.uri);
+    }
+  },
+}));
+
+const image = (id: string): ImageAttachment => ({ id, uri: `file:///attachments/${id}.jpg`, mimeType: 'image/jpeg', width: 10, height: 10 });
+
+const message = (...attachments: ImageAttachment[]): ChatMessage => ({
+  id: `m_${attachments.map((a) => a.id).join('_')}`,
+  role: 'user',
+  content: 'look',
+  timestamp: 0,
+  attachments,
+});
+
+beforeEach(() => {
+  mockReads.length = 0;
+  mockDeleted.length = 0;
+});
+
+describe('loadImageData', () => {
+  it('reads each image once across turns', async () => {
+    const history = [message(image('a'), image('b'))];
+    expect(await loadImageData(history)).toEqual({
+      a: 'data:image/jpeg;base64,b64(file:///attachments/a.jpg)',
+      b: 'data:image/jpeg;base64,b64(file:///attachments/b.jpg)',
+    });
+
+    history.push(message(image('c')));
+    const second = await loadImageData(history);
+    expect(Object.keys(second)).toEqual(['a', 'b', 'c']);
+    expect(mockReads).toEqual(['file:///attachments/a.jpg', 'file:///attachments/b.jpg', 'file:///attachments/c.jpg']);
+  });
+
+  it('passes web data URLs through without reading', async () => {
+    const web: ImageAttachment = { ...image('w'), uri: 'data:image/jpeg;base64,xyz' };
+    expect(await loadImageData([message(web)])).toEqual({ w: 'data:image/jpeg;base64,xyz' });
+    expect(mockReads).toEqual([]);
+  });
+
+  it('forgets deleted images', async () => {
+    const d = image('d');
+    await loadImageData([message(d)]);
+    deleteAttachments([d]);
+    expect(mockDeleted).toEqual(['file:///attachments/d.jpg']);
+
+    await loadImageData([message(d)]);
+    expect(mockReads).toEqual(['file:///attachments/d.jpg', 'file:///attachments/d.jpg']);
+  });
+
+  it('keeps only the most recently used images cached', async () => {
+    const many = Array.from({ length: 21 }, (_, i) => image(`n${i}`));
+    await loadImageData([message(...many)]);
+    mockReads.length = 0;
+
+    await loadImageData([message(many[20], many[0])]);
+    // The oldest entry made room for the 21st
+    expect(mockReads).toEqual(['file:///attachments/n0.jpg']);
+  });
+});
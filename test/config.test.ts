@@ -0,0 +1,111 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { AppConfig, addProfile, deleteProfile, loadConfig, saveConfig } from '../src/store/config';
+
+const mockSecrets = new Map<string, string>();
+// Reads of these secret names, and all writes while set, fail like a locked Keychain
+const mockFailing = { reads: new Set<string>(), writes: false };
+
+jest.mock('../src/lib/secretStorage', () => ({
+  getSecret: async (key: string) => {
+    if (mockFailing.reads.has(key)) throw new Error('Keychain locked');
+    return mockSecrets.get(key) ?? null;
+  },
+  setSecret: async (key: string, value: string) => {
+    if (mockFailing.writes) throw new Error('Keychain locked');
+    if (value) mockSecrets.set(key, value);
+    else mockSecrets.delete(key);
+  },
+  deleteSecret: async (key: string) => {
+    mockSecrets.delete(key);
+  },
+}));
+
+const storedBlob = async () => JSON.parse((await AsyncStorage.getItem('app_config_v2')) ?? '{}');
+
+beforeEach(async () => {
+  mockSecrets.clear();
+  mockFailing.reads.clear();
+  mockFailing.writes = false;
+  await AsyncStorage.clear();
+});
+
+describe('config secret storage', () => {
+  it('keeps the API key, extra headers and extra query out of AsyncStorage', async () => {
+    const cfg: AppConfig = {
+      ...(await loadConfig()),
+      apiKey: 'key-123',
+      extraHeaders: { 'X-Org': 'org-secret' },
+      extraQuery: { tenant: 'tenant-secret' },
+    };
+    await saveConfig(cfg);
+
+    const blob = JSON.stringify(await storedBlob());
+    expect(blob).not.toContain('key-123');
+    expect(blob).not.toContain('org-secret');
+    expect(blob).not.toContain('tenant-secret');
+    expect(mockSecrets.get('extraHeaders.default')).toBe('{"X-Org":"org-secret"}');
+
+    const loaded = await loadConfig();
+    expect(loaded).toMatchObject({
+      apiKey: 'key-123',
+      extraHeaders: { 'X-Org': 'org-secret' },
+      extraQuery: { tenant: 'tenant-secret' },
+    });
+  });
+
+  it('moves plaintext extra headers of older configs into secret storage', async () => {
+    await AsyncStorage.setItem('app_config_v2', JSON.stringify({
+      profiles: [{ id: 'p1', name: 'Gateway', apiKey: '', baseUrl: 'http://gw/v1', model: 'm', extraHeaders: { 'X-Org': 'org-secret' } }],
+      activeProfileId: 'p1',
+    }));
+
+    const loaded = await loadConfig();
+    expect(loaded.extraHeaders).toEqual({ 'X-Org': 'org-secret' });
+    expect(JSON.stringify(await storedBlob())).not.toContain('org-secret');
+    expect(mockSecrets.get('extraHeaders.p1')).toBe('{"X-Org":"org-secret"}');
+  });
+
+  it('deletes the secrets of removed profiles and of cleared maps', async () => {
+    let cfg = addProfile(await loadConfig(), 'Other', { apiKey: 'other-key', extraHeaders: { 'X-A': 'aaaa' }, extraQuery: { q: 'qqqq' } });
+    await saveConfig(cfg);
+    const otherId = cfg.activeProfileId;
+    expect(mockSecrets.has(`extraQuery.${otherId}`)).toBe(true);
+
+    cfg = { ...cfg, extraHeaders: {} };
+    await saveConfig(cfg);
+    expect(mockSecrets.has(`extraHeaders.${otherId}`)).toBe(false);
+
+    await saveConfig(deleteProfile(cfg, otherId));
+    expect([...mockSecrets.keys()].filter((k) => k.endsWith(otherId))).toEqual([]);
+  });
+
+  it('keeps a secret that failed to read until a new value is entered', async () => {
+    await AsyncStorage.setItem('app_config_v2', JSON.stringify({
+      profiles: [{ id: 'p1', name: 'Locked', apiKey: '', baseUrl: 'http://gw/v1', model: 'm' }],
+      activeProfileId: 'p1',
+    }));
+    mockSecrets.set('apiKey.p1', 'stored-key');
+    mockFailing.reads.add('apiKey.p1');
+
+    const loaded = await loadConfig();
+    expect(loaded.apiKey).toBe('');
+    await saveConfig(loaded);
+    expect(mockSecrets.get('apiKey.p1')).toBe('stored-key');
+
+    await saveConfig({ ...loaded, apiKey: 'new-key' });
+    expect(mockSecrets.get('apiKey.p1')).toBe('new-key');
+  });
+
+  it('keeps the loaded profiles when moving plaintext secrets fails', async () => {
+    await AsyncStorage.setItem('app_config_v2', JSON.stringify({
+      profiles: [{ id: 'p1', name: 'Gateway', apiKey: 'plain-key', baseUrl: 'http://gw/v1', model: 'm' }],
+      activeProfileId: 'p1',
+    }));
+    mockFailing.writes = true;
+
+    const loaded = await loadConfig();
+    expect(loaded).toMatchObject({ activeProfileId: 'p1', apiKey: 'plain-key', profiles: [expect.objectContaining({ name: 'Gateway' })] });
+    // The plaintext copy is still there for the next attempt
+    expect((await storedBlob()).profiles[0].apiKey).toBe('plain-key');
+  });
+});
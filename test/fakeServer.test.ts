@@ -0,0 +1,184 @@
+import { OpenAIClient, RetryInfo, isAbortError } from '../src/lib/openaiClient';
+import { ApiError, AuthenticationError, NetworkError, RateLimitError, ServerError } from '../src/lib/errors';
+import { FakeOpenAIServer, recordSSE } from './fakeServer';
+
+function setup(opts: { apiKey?: string } = {}) {
+  const server = new FakeOpenAIServer({ apiKey: 'secret' });
+  const client = new OpenAIClient({ baseUrl: 'http://fake/v1', apiKey: opts.apiKey ?? 'secret', model: 'fake-model' }, server);
+  return { server, client };
+}
+
+/** Start a chat and collect its tokens and retries; `result` never rejects so timers can be advanced first */
+function startChat(client: OpenAIClient, options: { signal?: AbortSignal } = {}) {
+  const tokens: string[] = [];
+  const retries: RetryInfo[] = [];
+  const result = client
+    .chat([{ role: 'user', content: 'hi' }], (t) => tokens.push(t), { ...options, onRetry: (r) => retries.push(r) })
+    .then((text) => ({ text, error: undefined }), (error: unknown) => ({ text: undefined, error }));
+  return { tokens, retries, result };
+}
+
+beforeEach(() => {
+  jest.useFakeTimers();
+});
+
+afterEach(() => {
+  jest.useRealTimers();
+});
+
+describe('OpenAIClient against FakeOpenAIServer', () => {
+  it('streams a slow recorded response token by token', async () => {
+    const { server, client } = setup();
+    server.enqueue({ type: 'sse', body: recordSSE(['One', ' two', ' three']), chunkSize: 50, chunkDelayMs: 100 });
+
+    const chat = startChat(client);
+    await jest.advanceTimersByTimeAsync(300);
+    // The first token is in while the rest is still on its way
+    expect(chat.tokens).toEqual(['One']);
+
+    await jest.advanceTimersByTimeAsync(60000);
+    expect(await chat.result).toEqual({ text: 'One two three', error: undefined });
+    expect(chat.tokens).toEqual(['One', ' two', ' three']);
+
+    expect(server.requests).toHaveLength(1);
+    const [request] = server.requests;
+    expect(request.method).toBe('POST');
+    expect(request.url).toBe('http://fake/v1/chat/completions');
+    expect(request.headers.Authorization).toBe('Bearer secret');
+    expect(request.body).toMatchObject({ model: 'fake-model', stream: true, messages: [{ role: 'user', content: 'hi' }] });
+  });
+
+  it('reports a rejected key as an AuthenticationError without retrying', async () => {
+    const { server, client } = setup({ apiKey: 'wrong' });
+    const chat = startChat(client);
+    await jest.advanceTimersByTimeAsync(60000);
+    const { error } = await chat.result;
+    expect(error).toBeInstanceOf(AuthenticationError);
+    expect((error as ApiError).status).toBe(401);
+    expect(chat.retries).toEqual([]);
+    expect(server.requests).toHaveLength(1);
+  });
+
+  it('retries server errors with backoff until the request goes through', async () => {
+    const { server, client } = setup();
+    server.enqueue({ type: 'error', status: 500 }, { type: 'error', status: 503 });
+
+    const chat = startChat(client);
+    await jest.advanceTimersByTimeAsync(60000);
+    expect(await chat.result).toEqual({ text: 'Hello from the fake server.', error: undefined });
+    expect(chat.retries.map((r) => [r.attempt, r.error.constructor])).toEqual([
+      [1, ServerError],
+      [2, ServerError],
+    ]);
+    // Full jitter: each wait is between half and all of the doubling cap
+    expect(chat.retries[0].delayMs).toBeGreaterThanOrEqual(500);
+    expect(chat.retries[0].delayMs).toBeLessThanOrEqual(1000);
+    expect(chat.retries[1].delayMs).toBeGreaterThanOrEqual(1000);
+    expect(chat.retries[1].delayMs).toBeLessThanOrEqual(2000);
+    expect(server.requests).toHaveLength(3);
+  });
+
+  it('waits for the Retry-After of a rate limit before retrying', async () => {
+    const { server, client } = setup();
+    server.enqueue({ type: 'error', status: 429, headers: { 'Retry-After': '5' }, body: { error: { message: 'Slow down' } } });
+
+    const chat = startChat(client);
+    await jest.advanceTimersByTimeAsync(4900);
+    expect(chat.retries).toEqual([expect.objectContaining({ attempt: 1, delayMs: 5000, error: expect.any(RateLimitError) })]);
+    expect(server.requests).toHaveLength(1);
+
+    await jest.advanceTimersByTimeAsync(200);
+    expect(server.requests).toHaveLength(2);
+    expect((await chat.result).text).toBe('Hello from the fake server.');
+  });
+
+  it('surfaces long Retry-After waits and exhausted quota instead of retrying', async () => {
+    const { server, client } = setup();
+    server.enqueue(
+      { type: 'error', status: 429, headers: { 'Retry-After': '120' } },
+      { type: 'error', status: 429, body: { error: { message: 'Quota exceeded', code: 'insufficient_quota' } } },
+    );
+
+    const first = startChat(client);
+    await jest.advanceTimersByTimeAsync(1000);
+    const { error } = await first.result;
+    expect(error).toBeInstanceOf(RateLimitError);
+    expect((error as RateLimitError).retryAfterMs).toBe(120000);
+
+    const second = startChat(client);
+    await jest.advanceTimersByTimeAsync(1000);
+    expect((await second.result).error).toMatchObject({ kind: 'rate_limit', retryable: false });
+    expect(first.retries).toEqual([]);
+    expect(second.retries).toEqual([]);
+    expect(server.requests).toHaveLength(2);
+  });
+
+  it('retries a refused connection but not a stream that dropped after tokens arrived', async () => {
+    const { server, client } = setup();
+    const body = recordSSE(['Partial', ' answer', ' lost']);
+    server.enqueue({ type: 'network' }, { type: 'disconnect', body, afterChars: body.indexOf('data:', body.indexOf(' answer')), chunkSize: 16 });
+
+    const chat = startChat(client);
+    await jest.advanceTimersByTimeAsync(60000);
+    const { error } = await chat.result;
+    expect(error).toBeInstanceOf(NetworkError);
+    expect(chat.retries).toEqual([expect.objectContaining({ attempt: 1, error: expect.any(NetworkError) })]);
+    expect(chat.tokens.join('')).toBe('Partial answer');
+    expect(server.requests).toHaveLength(2);
+  });
+
+  it('gives up after the configured number of retries', async () => {
+    const { server, client } = setup();
+    server.defaultScenario = { type: 'network' };
+    const chat = startChat(client);
+    await jest.advanceTimersByTimeAsync(120000);
+    expect((await chat.result).error).toBeInstanceOf(NetworkError);
+    expect(chat.retries.map((r) => r.attempt)).toEqual([1, 2, 3]);
+    expect(server.requests).toHaveLength(4);
+  });
+
+  it('stops a stream when its signal aborts', async () => {
+    const { server, client } = setup();
+    server.enqueue({ type: 'sse', body: recordSSE(['a', 'b', 'c', 'd', 'e']), chunkSize: 8, chunkDelayMs: 100 });
+    const controller = new AbortController();
+
+    const chat = startChat(client, { signal: controller.signal });
+    await jest.advanceTimersByTimeAsync(250);
+    controller.abort();
+    await jest.advanceTimersByTimeAsync(60000);
+    const { error } = await chat.result;
+    expect(isAbortError(error)).toBe(true);
+    expect(chat.retries).toEqual([]);
+  });
+
+  it('cancels the wait before a retry when aborted', async () => {
+    const { server, client } = setup();
+    server.enqueue({ type: 'error', status: 429, headers: { 'Retry-After': '10' } });
+    const controller = new AbortController();
+
+    const chat = startChat(client, { signal: controller.signal });
+    await jest.advanceTimersByTimeAsync(1000);
+    expect(chat.retries).toHaveLength(1);
+    controller.abort();
+    await jest.advanceTimersByTimeAsync(60000);
+    expect(isAbortError((await chat.result).error)).toBe(true);
+    expect(server.requests).toHaveLength(1);
+  });
+
+  it('triggers the kill switch', async () => {
+    const { server, client } = setup();
+    server.killSwitchResult = { success: true, message: 'Stopped 2 agents', processesKilled: 2 };
+
+    const result = client.killSwitch();
+    await jest.advanceTimersByTimeAsync(0);
+    expect(await result).toEqual({ success: true, message: 'Stopped 2 agents', processesKilled: 2 });
+    expect(server.requests.map((r) => [r.method, r.url])).toEqual([['POST', 'http://fake/v1/emergency-stop']]);
+  });
+
+  it('reports a kill switch the server refused', async () => {
+    const { client } = setup({ apiKey: 'wrong' });
+    const result = client.killSwitch();
+    await jest.advanceTimersByTimeAsync(0);
+    expect(await result).toMatchObject({ success: false });
+  });
+});
@@ -0,0 +1,213 @@
+/**
+ * In-memory fake of an OpenAI-compatible (SpeakMCP) server, for tests only
+ *
+ * FakeOpenAIServer implements Transport, so it can be handed to OpenAIClient directly or to
+ * screens through TransportContext to run the whole chat pipeline offline. Chat requests are
+ * answered from a queue of scenarios: recorded SSE streams (optionally slow), JSON bodies,
+ * error responses, mid-stream disconnects and refused connections. Every request is recorded
+ * in `requests` for later inspection.
+ */
+import { StreamInit, StreamResponse, Transport, TransportRequestInit, TransportResponse } from '../src/lib/transport';
+
+export type FakeChatScenario =
+  /** Replay a recorded text/event-stream body, split into chunks with an optional delay between them */
+  | { type: 'sse'; body: string; chunkSize?: number; chunkDelayMs?: number; headers?: Record<string, string> }
+  /** A non-streaming JSON response */
+  | { type: 'json'; body: unknown; status?: number; headers?: Record<string, string> }
+  /** An HTTP error, e.g. 429 with a Retry-After header */
+  | { type: 'error'; status: number; body?: unknown; headers?: Record<string, string> }
+  /** Stream part of an SSE body, then drop the connection */
+  | { type: 'disconnect'; body: string; afterChars: number; chunkSize?: number; chunkDelayMs?: number }
+  /** Fail before any response, like an unreachable host */
+  | { type: 'network' };
+
+export type FakeRequest = {
+  url: string;
+  method: string;
+  headers: Record<string, string>;
+  /** Parsed JSON body when the body was JSON, otherwise the raw string */
+  body?: unknown;
+  timestamp: number;
+};
+
+const STATUS_TEXT: Record<number, string> = {
+  200: 'OK',
+  400: 'Bad Request',
+  401: 'Unauthorized',
+  403: 'Forbidden',
+  404: 'Not Found',
+  429: 'Too Many Requests',
+  500: 'Internal Server Error',
+  502: 'Bad Gateway',
+  503: 'Service Unavailable',
+};
+
+const DEFAULT_CHUNK_SIZE = 64;
+
+/** Build an OpenAI-style chat.completion.chunk SSE body streaming `tokens`, ending with [DONE] */
+export function recordSSE(tokens: string[], opts: { model?: string; conversationId?: string } = {}): string {
+  const base = { id: 'chatcmpl-fake', object: 'chat.completion.chunk', model: opts.model ?? 'fake-model' };
+  const chunks: object[] = tokens.map((content, i) => ({
+    ...base,
+    ...(i === 0 && opts.conversationId ? { conversation_id: opts.conversationId } : {}),
+    choices: [{ index: 0, delta: i === 0 ? { role: 'assistant', content } : { content }, finish_reason: null }],
+  }));
+  chunks.push({ ...base, choices: [{ index: 0, delta: {}, finish_reason: 'stop' }] });
+  return chunks.map((c) => `data: ${JSON.stringify(c)}\n\n`).join('') + 'data: [DONE]\n\n';
+}
+
+function abortError(): Error {
+  const err = new Error('Request aborted');
+  err.name = 'AbortError';
+  return err;
+}
+
+function wait(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(abortError());
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(abortError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort);
+  });
+}
+
+function headerBag(headers: Record<string, string>) {
+  const map: Record<string, string> = {};
+  for (const [k, v] of Object.entries(headers)) map[k.toLowerCase()] = v;
+  return { get: (name: string) => map[name.toLowerCase()] ?? null };
+}
+
+function pathOf(url: string): string {
+  return url.replace(/^[a-z]+:\/\/[^/]+/i, '').split('?')[0];
+}
+
+export class FakeOpenAIServer implements Transport {
+  /** Every request received, oldest first */
+  requests: FakeRequest[] = [];
+  /** IDs served from GET /models */
+  models: string[] = ['fake-model'];
+  /** When set, requests without `Authorization: Bearer <apiKey>` get a 401 */
+  apiKey?: string;
+  /** Used for chat requests once the scenario queue is empty */
+  defaultScenario: FakeChatScenario = { type: 'sse', body: recordSSE(['Hello', ' from', ' the fake server.']) };
+  /** Body returned from POST /emergency-stop */
+  killSwitchResult: Record<string, unknown> = { success: true, message: 'Emergency stop executed', processesKilled: 0 };
+
+  private queue: FakeChatScenario[] = [];
+
+  constructor(opts: { apiKey?: string; models?: string[] } = {}) {
+    this.apiKey = opts.apiKey;
+    if (opts.models) this.models = opts.models;
+  }
+
+  /** Queue scenarios for the next chat requests, answered in order */
+  enqueue(...scenarios: FakeChatScenario[]): this {
+    this.queue.push(...scenarios);
+    return this;
+  }
+
+  reset() {
+    this.queue = [];
+    this.requests = [];
+  }
+
+  async request(url: string, init: TransportRequestInit = {}): Promise<TransportResponse> {
+    const res = await this.handle(url, init);
+    return {
+      ok: res.ok,
+      status: res.status,
+      statusText: res.statusText,
+      headers: res.headers,
+      text: async () => res.text,
+      json: async () => JSON.parse(res.text),
+    };
+  }
+
+  stream(url: string, init: StreamInit = {}): Promise<StreamResponse & { text: string }> {
+    return this.handle(url, init, init.onHeaders, init.onChunk);
+  }
+
+  /** Route a request and play back its scenario, feeding chunks to onChunk when streaming */
+  private async handle(
+    url: string,
+    init: TransportRequestInit,
+    onHeaders?: StreamInit['onHeaders'],
+    onChunk?: StreamInit['onChunk'],
+  ): Promise<StreamResponse & { text: string }> {
+    const { signal } = init;
+    if (signal?.aborted) throw abortError();
+
+    const headers = init.headers ?? {};
+    let body: unknown = init.body;
+    try { body = init.body ? JSON.parse(init.body) : undefined; } catch {}
+    this.requests.push({ url, method: init.method ?? 'GET', headers, body, timestamp: Date.now() });
+
+    const scenario = this.route(pathOf(url), headers);
+    // Let callers observe the request before anything comes back, like a real round trip
+    await wait(0, signal);
+
+    if (scenario.type === 'network') {
+      throw new TypeError('Network request failed');
+    }
+    if (scenario.type === 'json' || scenario.type === 'error') {
+      const status = scenario.type === 'json' ? scenario.status ?? 200 : scenario.status;
+      const text = typeof scenario.body === 'string' ? scenario.body : JSON.stringify(scenario.body ?? {});
+      const response = this.response(status, { 'content-type': 'application/json', ...scenario.headers });
+      onHeaders?.(response);
+      if (response.ok) onChunk?.(text, response);
+      return { ...response, text };
+    }
+
+    const response = this.response(200, {
+      'content-type': 'text/event-stream',
+      ...(scenario.type === 'sse' ? scenario.headers : undefined),
+    });
+    onHeaders?.(response);
+    const full = scenario.type === 'disconnect' ? scenario.body.slice(0, scenario.afterChars) : scenario.body;
+    const size = Math.max(1, scenario.chunkSize ?? DEFAULT_CHUNK_SIZE);
+    let sent = '';
+    for (let i = 0; i < full.length; i += size) {
+      if (i > 0 && scenario.chunkDelayMs) await wait(scenario.chunkDelayMs, signal);
+      if (signal?.aborted) throw abortError();
+      const chunk = full.slice(i, i + size);
+      sent += chunk;
+      if (onChunk?.(chunk, response) === true) return { ...response, text: sent };
+    }
+    if (scenario.type === 'disconnect') {
+      throw new TypeError('Network request failed');
+    }
+    return { ...response, text: sent };
+  }
+
+  private route(path: string, headers: Record<string, string>): FakeChatScenario {
+    const auth = Object.entries(headers).find(([k]) => k.toLowerCase() === 'authorization')?.[1];
+    if (this.apiKey !== undefined && auth !== `Bearer ${this.apiKey}`) {
+      return { type: 'error', status: 401, body: { error: { message: 'Invalid API key', code: 'invalid_api_key' } } };
+    }
+    if (path.endsWith('/models')) {
+      return { type: 'json', body: { object: 'list', data: this.models.map((id) => ({ id, object: 'model', owned_by: 'fake' })) } };
+    }
+    if (path.endsWith('/emergency-stop')) {
+      return { type: 'json', body: this.killSwitchResult };
+    }
+    if (path.endsWith('/chat/completions')) {
+      return this.queue.shift() ?? this.defaultScenario;
+    }
+    return { type: 'error', status: 404, body: { error: { message: `No route for ${path}` } } };
+  }
+
+  private response(status: number, headers: Record<string, string> = {}): StreamResponse {
+    return {
+      ok: status >= 200 && status < 300,
+      status,
+      statusText: STATUS_TEXT[status] ?? '',
+      headers: headerBag(headers),
+    };
+  }
+}
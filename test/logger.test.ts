@@ -0,0 +1,55 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { LogEntry, redact, redactString, setRedactions } from '../src/lib/logger';
+
+afterEach(() => {
+  setRedactions({});
+});
+
+describe('logger redaction', () => {
+  it('redacts built-in secret patterns', () => {
+    expect(redactString('Authorization: Bearer abc.def')).toBe('Authorization: Bearer [REDACTED]');
+    expect(redactString('GET /v1/models?api_key=12345&x=1')).toBe('GET /v1/models?api_key=[REDACTED]&x=1');
+    expect(redact({ headers: { 'X-API-Key': 'k', Accept: 'json' } })).toEqual({ headers: { 'X-API-Key': '[REDACTED]', Accept: 'json' } });
+  });
+
+  it('redacts a configured custom auth header by name', () => {
+    setRedactions({ keys: ['X-Gateway-Auth'] });
+    expect(redact({ 'x-gateway-auth': 'raw-key', Accept: 'json' })).toEqual({ 'x-gateway-auth': '[REDACTED]', Accept: 'json' });
+    expect(redactString('{"X-Gateway-Auth":"raw-key"}')).toBe('{"X-Gateway-Auth":"[REDACTED]"}');
+  });
+
+  it('redacts configured extra header and query values wherever they appear', () => {
+    setRedactions({ values: ['org secret', 'tenant-42', 'ab'] });
+    expect(redactString('headers: X-Org=org secret')).toBe('headers: X-Org=[REDACTED]');
+    expect(redactString('https://gw/v1/chat?tenant=tenant-42&org=org%20secret')).toBe('https://gw/v1/chat?tenant=[REDACTED]&org=[REDACTED]');
+    expect(redact({ note: 'for tenant-42' })).toEqual({ note: 'for [REDACTED]' });
+    // Very short values are left alone rather than blanking unrelated text
+    expect(redactString('about')).toBe('about');
+  });
+
+  it('forgets redactions that are replaced', () => {
+    setRedactions({ keys: ['X-Old'], values: ['old-value'] });
+    setRedactions({ keys: ['X-New'] });
+    expect(redactString('old-value')).toBe('old-value');
+    expect(redact({ 'X-Old': 'v' })).toEqual({ 'X-Old': 'v' });
+  });
+});
+
+describe('logger persistence', () => {
+  it("keeps the previous run's entries when saving the first ones of this run", async () => {
+    jest.useFakeTimers();
+    const consoleLog = jest.spyOn(console, 'log').mockImplementation(() => {});
+    const previous: LogEntry = { timestamp: 1, level: 'info', subsystem: 'app', message: 'from the last run' };
+    await AsyncStorage.setItem('diagnostics_log_v1', JSON.stringify([previous]));
+    // test/setup.ts silences createLogger; this one records
+    const { createLogger } = jest.requireActual<typeof import('../src/lib/logger')>('../src/lib/logger');
+
+    createLogger('app').info('from this run');
+    await jest.advanceTimersByTimeAsync(2000);
+
+    const stored: LogEntry[] = JSON.parse((await AsyncStorage.getItem('diagnostics_log_v1'))!);
+    expect(stored.map((e) => e.message)).toEqual(['from the last run', 'from this run']);
+    consoleLog.mockRestore();
+    jest.useRealTimers();
+  });
+});
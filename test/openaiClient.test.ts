@@ -0,0 +1,138 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { OpenAIClient, ToolCall, ToolResult } from '../src/lib/openaiClient';
+import { AgentEvent } from '../src/lib/agentEvents';
+import { Transport } from '../src/lib/transport';
+
+const fixture = (name: string) => readFileSync(join(__dirname, 'fixtures', name), 'utf8');
+
+/** A transport that answers every streamed request with `body`, `chunkSize` characters at a time */
+function replay(body: string, chunkSize = 32): Transport {
+  const response = {
+    ok: true,
+    status: 200,
+    statusText: 'OK',
+    headers: { get: (name: string) => (name.toLowerCase() === 'content-type' ? 'text/event-stream' : null) },
+  };
+  return {
+    request: async () => {
+      throw new Error('not used');
+    },
+    stream: async (_url, init = {}) => {
+      init.onHeaders?.(response);
+      for (let i = 0; i < body.length; i += chunkSize) {
+        if (init.onChunk?.(body.slice(i, i + chunkSize), response) === true) break;
+      }
+      return { ...response, text: body };
+    },
+  };
+}
+
+const sse = (...chunks: unknown[]) => chunks.map((c) => `data: ${typeof c === 'string' ? c : JSON.stringify(c)}\n\n`).join('');
+
+async function run(body: string, chunkSize?: number) {
+  const client = new OpenAIClient({ baseUrl: 'http://fake/v1', apiKey: 'k', model: 'm' }, replay(body, chunkSize));
+  const tokens: string[] = [];
+  const toolCalls: ToolCall[][] = [];
+  const toolResults: ToolResult[] = [];
+  const events: AgentEvent[] = [];
+  const conversationIds: string[] = [];
+  const text = await client.chat([{ role: 'user', content: 'hi' }], (t) => tokens.push(t), {
+    onToolCalls: (calls) => toolCalls.push(calls),
+    onToolResult: (r) => toolResults.push(r),
+    onEvent: (e) => events.push(e),
+    onConversationId: (id) => conversationIds.push(id),
+  });
+  return { text, tokens, toolCalls, lastToolCalls: toolCalls[toolCalls.length - 1], toolResults, events, conversationIds };
+}
+
+describe('OpenAIClient stream handling', () => {
+  it.each([
+    ['openai.sse', 'Hello there!'],
+    ['ollama.sse', 'Hi from Ollama'],
+    ['lmstudio.sse', 'Local models work'],
+  ])('assembles the content deltas of %s', async (name, expected) => {
+    for (const size of [1, 5, 1000]) {
+      const { text, tokens } = await run(fixture(name), size);
+      expect(text).toBe(expected);
+      expect(tokens.join('')).toBe(expected);
+    }
+  });
+
+  it('handles a SpeakMCP stream: agent events, tool results and the conversation ID', async () => {
+    const { text, tokens, events, toolResults, conversationIds } = await run(fixture('speakmcp.sse'), 7);
+    expect(text).toBe('Found 2 entries.');
+    expect(tokens).toEqual(['Found 2 entries.']);
+    expect(events.map((e) => e.type)).toEqual(['thinking', 'tool_call', 'completion']);
+    expect(events[1].toolName).toBe('list_files');
+    expect(events[2].isComplete).toBe(true);
+    expect(toolResults).toEqual([{ toolCallId: 'call_ls', content: 'README.md\nsrc' }]);
+    expect(conversationIds).toEqual(['conv_42']);
+  });
+
+  it('ignores anything after [DONE]', async () => {
+    const body = sse({ choices: [{ delta: { content: 'a' } }] }, '[DONE]', { choices: [{ delta: { content: 'b' } }] });
+    expect((await run(body)).text).toBe('a');
+  });
+
+  it('reads servers that put one JSON chunk per data line without blank lines between them', async () => {
+    const body = [
+      `data: ${JSON.stringify({ choices: [{ delta: { content: 'one ' } }] })}`,
+      `data: ${JSON.stringify({ choices: [{ delta: { content: 'two' } }] })}`,
+      'data: [DONE]',
+      '',
+      '',
+    ].join('\n');
+    expect((await run(body)).text).toBe('one two');
+  });
+});
+
+describe('OpenAIClient tool call merging', () => {
+  it('merges streamed name and argument fragments by index', async () => {
+    const { lastToolCalls, text } = await run(fixture('openai-tool-calls.sse'), 9);
+    expect(text).toBe('');
+    expect(lastToolCalls).toEqual([
+      { id: 'call_weather', type: 'function', function: { name: 'get_weather', arguments: '{"city": "Berlin"}' } },
+      { id: 'call_time', type: 'function', function: { name: 'get_time', arguments: '{}' } },
+    ]);
+  });
+
+  it('reports a copy of the calls after every delta', async () => {
+    const { toolCalls } = await run(fixture('openai-tool-calls.sse'));
+    expect(toolCalls.map((calls) => calls[0].function.arguments)).toEqual(['', '{"city":', '{"city": "Berlin"}', '{"city": "Berlin"}']);
+    // Earlier snapshots are not mutated by later deltas
+    expect(toolCalls[0][0].function.arguments).toBe('');
+  });
+
+  it('matches deltas without an index by id', async () => {
+    const body = sse(
+      { choices: [{ delta: { tool_calls: [{ id: 'a', function: { name: 'first', arguments: '{"x"' } }] } }] },
+      { choices: [{ delta: { tool_calls: [{ index: 1, id: 'b', function: { name: 'second', arguments: '{}' } }] } }] },
+      { choices: [{ delta: { tool_calls: [{ id: 'a', function: { arguments: ':1}' } }] } }] },
+      '[DONE]',
+    );
+    const { lastToolCalls } = await run(body);
+    expect(lastToolCalls.map((c) => [c.id, c.function.name, c.function.arguments])).toEqual([
+      ['a', 'first', '{"x":1}'],
+      ['b', 'second', '{}'],
+    ]);
+  });
+
+  it('serializes arguments sent as an object', async () => {
+    const body = sse(
+      { choices: [{ delta: { tool_calls: [{ index: 0, id: 'c', function: { name: 'search', arguments: { q: 'mcp' } } }] } }] },
+      '[DONE]',
+    );
+    expect((await run(body)).lastToolCalls[0].function.arguments).toBe('{"q":"mcp"}');
+  });
+
+  it('replaces assembled calls with a complete message', async () => {
+    const body = sse(
+      { choices: [{ delta: { tool_calls: [{ index: 0, id: 'partial', function: { name: 'x', arguments: '{' } }] } }] },
+      { choices: [{ message: { role: 'assistant', tool_calls: [{ id: 'full', type: 'function', function: { name: 'y', arguments: '{}' } }] } }] },
+      '[DONE]',
+    );
+    const { lastToolCalls } = await run(body);
+    expect(lastToolCalls).toEqual([{ id: 'full', type: 'function', function: { name: 'y', arguments: '{}' } }]);
+  });
+});
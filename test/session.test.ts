@@ -0,0 +1,33 @@
+import { ChatMessage, createSession, sessionToListItem } from '../src/types/session';
+
+const msg = (role: ChatMessage['role'], content: string, extra: Partial<ChatMessage> = {}): ChatMessage => ({
+  id: `${role}_${content}`,
+  role,
+  content,
+  timestamp: 0,
+  ...extra,
+});
+
+describe('sessionToListItem', () => {
+  it('previews the last user or assistant text, skipping tool output and failed requests', () => {
+    const session = {
+      ...createSession(),
+      messages: [
+        msg('user', 'List my files'),
+        msg('assistant', 'Here they are.'),
+        msg('tool', 'README.md'),
+        msg('user', 'And now?'),
+        msg('assistant', 'Partial answ', { status: 'error', error: { kind: 'network', message: 'Network request failed' } }),
+      ],
+    };
+    const item = sessionToListItem(session);
+    expect(item.preview).toBe('And now?');
+    expect(item.messageCount).toBe(4);
+  });
+
+  it('shows a photo placeholder for an image without text', () => {
+    const photo = { id: 'img', uri: 'file:///a.jpg', mimeType: 'image/jpeg', width: 1, height: 1 };
+    const session = { ...createSession(), messages: [msg('user', '', { attachments: [photo] })] };
+    expect(sessionToListItem(session).preview).toBe('📷 Photo');
+  });
+});
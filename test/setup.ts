@@ -0,0 +1,10 @@
+// Native modules the app's libraries touch at import time
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock'),
+);
+
+// Keep test output quiet and don't leave the log buffer's persist timer running
+jest.mock('../src/lib/logger', () => {
+  const silent = { debug: () => {}, info: () => {}, warn: () => {}, error: () => {} };
+  return { ...jest.requireActual('../src/lib/logger'), createLogger: () => silent };
+});
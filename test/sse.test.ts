@@ -0,0 +1,113 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { SSEEvent, SSEParser, parseSSE } from '../src/lib/sse';
+
+const fixture = (name: string) => readFileSync(join(__dirname, 'fixtures', name), 'utf8');
+
+const PROVIDER_FIXTURES = ['openai.sse', 'openai-tool-calls.sse', 'ollama.sse', 'lmstudio.sse', 'speakmcp.sse'];
+
+/** Feed `text` to a fresh parser in slices of `size` characters */
+function parseInChunks(text: string, size: number): SSEEvent[] {
+  const parser = new SSEParser();
+  const events: SSEEvent[] = [];
+  for (let i = 0; i < text.length; i += size) events.push(...parser.push(text.slice(i, i + size)));
+  return [...events, ...parser.flush()];
+}
+
+const dataOf = (events: SSEEvent[]) => events.map((e) => e.data);
+
+describe('parseSSE', () => {
+  it('parses an OpenAI stream into one event per chunk, ending with [DONE]', () => {
+    const events = parseSSE(fixture('openai.sse'));
+    expect(events).toHaveLength(6);
+    expect(events.every((e) => e.event === 'message')).toBe(true);
+    expect(JSON.parse(events[1].data).choices[0].delta.content).toBe('Hello');
+    expect(events[5].data).toBe('[DONE]');
+  });
+
+  it('parses Ollama and LM Studio streams', () => {
+    const ollama = parseSSE(fixture('ollama.sse'));
+    expect(ollama.map((e) => e.data === '[DONE]' ? e.data : JSON.parse(e.data).choices[0].delta.content))
+      .toEqual(['Hi', ' from', ' Ollama', '', '[DONE]']);
+
+    const lmstudio = parseSSE(fixture('lmstudio.sse'));
+    expect(lmstudio).toHaveLength(5);
+    expect(JSON.parse(lmstudio[0].data).model).toBe('qwen2.5-7b-instruct');
+  });
+
+  it('parses a SpeakMCP stream with named events, ids, keep-alives and multi-line data', () => {
+    const events = parseSSE(fixture('speakmcp.sse'));
+    expect(events.map((e) => e.event)).toEqual(['progress', 'message', 'message', 'message', 'progress', 'message']);
+    expect(events[0].id).toBe('1');
+    // The last event ID carries over to later events until a new one is set
+    expect(events[1].id).toBe('1');
+    expect(events[3].id).toBe('2');
+    expect(events[5].id).toBe('2');
+    expect(events[3].data.split('\n')).toHaveLength(2);
+    expect(JSON.parse(events[3].data).choices[0].delta.content).toBe('Found 2 entries.');
+    expect(events[5].data).toBe('[DONE]');
+  });
+
+  it('dispatches a trailing event without a final blank line', () => {
+    expect(dataOf(parseSSE('data: one\n\ndata: two'))).toEqual(['one', 'two']);
+  });
+});
+
+describe('SSEParser', () => {
+  it.each(PROVIDER_FIXTURES)('gives the same events for %s whatever the chunk size', (name) => {
+    const text = fixture(name);
+    const expected = parseSSE(text);
+    for (const size of [1, 2, 3, 7, 16, 61, 256]) {
+      expect(parseInChunks(text, size)).toEqual(expected);
+    }
+  });
+
+  it('buffers a line split across chunks', () => {
+    const parser = new SSEParser();
+    expect(parser.push('data: {"choices":[{"delta":')).toEqual([]);
+    expect(parser.push('{"content":"Hi"}}]}\n')).toEqual([]);
+    expect(parser.push('\n')).toEqual([{ event: 'message', data: '{"choices":[{"delta":{"content":"Hi"}}]}' }]);
+  });
+
+  it.each([
+    ['CRLF', '\r\n'],
+    ['CR', '\r'],
+  ])('accepts %s line endings', (_label, eol) => {
+    const text = fixture('speakmcp.sse').replace(/\n/g, eol);
+    const expected = parseSSE(fixture('speakmcp.sse'));
+    expect(parseSSE(text)).toEqual(expected);
+    expect(parseInChunks(text, 1)).toEqual(expected);
+  });
+
+  it('does not treat a CRLF split between chunks as two line breaks', () => {
+    const parser = new SSEParser();
+    expect(parser.push('data: a\r')).toEqual([]);
+    expect(parser.push('\ndata: b\r')).toEqual([]);
+    expect(parser.push('\n\r\n')).toEqual([{ event: 'message', data: 'a\nb' }]);
+  });
+
+  it('ignores comment lines and events without data', () => {
+    expect(parseSSE(': keep-alive\n\n:ping\n\nevent: progress\n\ndata: x\n\n')).toEqual([{ event: 'message', data: 'x' }]);
+  });
+
+  it('reads event, id and retry fields', () => {
+    const events = parseSSE('event: progress\nid: 7\nretry: 3000\ndata: a\n\nretry: soon\ndata: b\n\n');
+    expect(events).toEqual([
+      { event: 'progress', data: 'a', id: '7', retry: 3000 },
+      // The event type resets after each dispatch; an invalid retry keeps the previous value
+      { event: 'message', data: 'b', id: '7', retry: 3000 },
+    ]);
+  });
+
+  it('ignores ids containing NUL and unknown fields', () => {
+    expect(parseSSE('id: 1\n\nid: bad\0id\nfoo: bar\ndata: x\n\n')).toEqual([{ event: 'message', data: 'x', id: '1' }]);
+  });
+
+  it('joins multi-line data and strips only one leading space', () => {
+    expect(dataOf(parseSSE('data: first\ndata:second\ndata:  third\ndata\n\n'))).toEqual(['first\nsecond\n third\n']);
+  });
+
+  it('passes [DONE] through as ordinary data', () => {
+    expect(parseSSE('data: [DONE]\n\n')).toEqual([{ event: 'message', data: '[DONE]' }]);
+  });
+});
@@ -0,0 +1,52 @@
+import { fetchTransport } from '../src/lib/transport';
+
+/** A fetch response whose body hands out `chunks` one read at a time */
+function streamingResponse(chunks: string[]) {
+  const encoder = new TextEncoder();
+  const reader = {
+    read: jest.fn(async () => {
+      const next = chunks.shift();
+      return next === undefined ? { done: true, value: undefined } : { done: false, value: encoder.encode(next) };
+    }),
+    cancel: jest.fn(async () => {}),
+  };
+  const response = {
+    ok: true,
+    status: 200,
+    statusText: 'OK',
+    headers: new Map([['content-type', 'text/event-stream']]),
+    body: { getReader: () => reader },
+  };
+  return { reader, response };
+}
+
+const originalFetch = global.fetch;
+
+afterEach(() => {
+  global.fetch = originalFetch;
+});
+
+describe('fetchTransport.stream', () => {
+  it('hands every chunk to onChunk and returns the whole body', async () => {
+    const { reader, response } = streamingResponse(['data: a\n\n', 'data: b\n\n']);
+    global.fetch = jest.fn(async () => response) as unknown as typeof fetch;
+    const chunks: string[] = [];
+    const res = await fetchTransport.stream('http://fake/v1/chat', { onChunk: (c) => { chunks.push(c); } });
+    expect(chunks).toEqual(['data: a\n\n', 'data: b\n\n']);
+    expect(res.text).toBe('data: a\n\ndata: b\n\n');
+    expect(reader.cancel).not.toHaveBeenCalled();
+  });
+
+  it('cancels the body when onChunk throws', async () => {
+    const { reader, response } = streamingResponse(['event: error\ndata: boom\n\n', 'data: more\n\n']);
+    global.fetch = jest.fn(async () => response) as unknown as typeof fetch;
+    const failure = fetchTransport.stream('http://fake/v1/chat', {
+      onChunk: () => {
+        throw new Error('boom');
+      },
+    });
+    await expect(failure).rejects.toThrow('boom');
+    expect(reader.cancel).toHaveBeenCalled();
+    expect(reader.read).toHaveBeenCalledTimes(1);
+  });
+});
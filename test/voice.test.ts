@@ -0,0 +1,86 @@
+import * as Speech from 'expo-speech';
+import { SpeechQueue } from '../src/lib/speechQueue';
+import { BargeInGate } from '../src/lib/bargeIn';
+import { matchModel, matchVoiceCommand, normalizeUtterance } from '../src/lib/voiceCommands';
+
+jest.mock('expo-speech', () => ({
+  speak: jest.fn(),
+  stop: jest.fn(),
+  pause: jest.fn(),
+  resume: jest.fn(),
+  VoiceQuality: { Enhanced: 'Enhanced', Default: 'Default' },
+}));
+
+const speak = Speech.speak as jest.Mock;
+
+beforeEach(() => {
+  speak.mockClear();
+});
+
+describe('voice command normalization', () => {
+  it('keeps letters and digits of any script', () => {
+    expect(normalizeUtterance('Стоп!')).toBe('стоп');
+    expect(normalizeUtterance('¿Nueva conversación?')).toBe('nueva conversación');
+    expect(normalizeUtterance('新しいチャット。')).toBe('新しいチャット');
+    expect(normalizeUtterance('Okay, use model gpt-4o.')).toBe('use model gpt-4o');
+  });
+
+  it('matches custom phrases in other languages', () => {
+    const custom = { stop: ['Стоп'], newChat: ['Nueva conversación'], switchModel: ['Modell wechseln zu'] };
+    expect(matchVoiceCommand('стоп.', custom)).toEqual({ id: 'stop' });
+    expect(matchVoiceCommand('Nueva conversación', custom)).toEqual({ id: 'newChat' });
+    expect(matchVoiceCommand('Modell wechseln zu Größer', custom)).toEqual({ id: 'switchModel', argument: 'größer' });
+  });
+
+  it('matches model names with non-ASCII letters', () => {
+    expect(matchModel('Größer Modell', ['klein', 'größer-modell'])).toBe('größer-modell');
+  });
+});
+
+describe('barge-in echo', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('strips the echo of non-Latin speech from the transcript', () => {
+    const speech = new SpeechQueue();
+    const gate = new BargeInGate(speech);
+    const detach = gate.attach();
+
+    speech.say('Привет, как дела?');
+    expect(gate.transcript('Привет, как дела')).toBeNull();
+    speech.interrupt();
+    jest.advanceTimersByTime(1000);
+
+    expect(gate.transcript('Привет как дела, стоп')).toBe('стоп');
+    detach();
+  });
+});
+
+describe('SpeechQueue voices', () => {
+  it('leaves out the configured voice when no voice was found for the sentence language', () => {
+    const speech = new SpeechQueue();
+    speech.configure({ language: 'en-US', voice: 'en-voice', languageFor: () => ({ language: 'fr-FR', voice: undefined }) });
+    speech.say('Bonjour à tous.');
+    expect(speak).toHaveBeenCalledWith('Bonjour à tous.', expect.objectContaining({ language: 'fr-FR' }));
+    expect(speak.mock.calls[0][1]).not.toHaveProperty('voice');
+  });
+
+  it('uses the voice found for the sentence language', () => {
+    const speech = new SpeechQueue();
+    speech.configure({ language: 'en-US', voice: 'en-voice', languageFor: () => ({ language: 'fr-FR', voice: 'fr-voice' }) });
+    speech.say('Bonjour à tous.');
+    expect(speak).toHaveBeenCalledWith('Bonjour à tous.', expect.objectContaining({ language: 'fr-FR', voice: 'fr-voice' }));
+  });
+
+  it('speaks with the configured settings when the sentence needs no override', () => {
+    const speech = new SpeechQueue();
+    speech.configure({ language: 'en-US', voice: 'en-voice', languageFor: () => null });
+    speech.say('Hello there.');
+    expect(speak).toHaveBeenCalledWith('Hello there.', expect.objectContaining({ language: 'en-US', voice: 'en-voice' }));
+  });
+});